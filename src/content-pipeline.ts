@@ -0,0 +1,77 @@
+import { App, CachedMetadata, TFile } from 'obsidian'
+
+/**
+ * Pipeline of transformers that notes pass through before they are written to the repository.
+ *
+ * Transformers run in the order in which they were registered: the built-in steps first, then those of
+ * other plugins. Each step can be disabled in the settings. Other plugins register steps through
+ * `registerContentTransformer` of the plugin instance.
+ */
+
+export interface TransformContext {
+    app: App
+    file: TFile
+    metadata: CachedMetadata | null
+    // All files that are published together with the note
+    publishedFiles: readonly TFile[]
+    publishedPaths: ReadonlySet<string>
+    // Repository paths of the published files by vault path
+    repoPaths: ReadonlyMap<string, string>
+}
+
+export interface ContentTransformer {
+    // Stable identifier, used to store whether the step is enabled
+    id: string
+    name: string
+    description?: string
+    transform(content: string, context: TransformContext): string | Promise<string>
+}
+
+export class ContentTransformerError extends Error {
+    constructor(public readonly transformerId: string, public readonly path: string, cause: unknown) {
+        super(`Transformer "${transformerId}" failed on ${path}: ${cause instanceof Error ? cause.message : String(cause)}`)
+        this.name = 'ContentTransformerError'
+    }
+}
+
+export class ContentPipeline {
+    private transformers: ContentTransformer[] = []
+
+    constructor(private isEnabled: (id: string) => boolean = () => true) { }
+
+    /**
+     * Appends a transformer to the pipeline and returns a function that removes it again.
+     * Throws if a transformer with the same id is registered already.
+     */
+    register(transformer: ContentTransformer): () => void {
+        if (this.transformers.some(t => t.id === transformer.id)) {
+            throw new Error(`A content transformer with the id "${transformer.id}" is registered already`)
+        }
+        this.transformers.push(transformer)
+        return () => { this.transformers = this.transformers.filter(t => t !== transformer) }
+    }
+
+    getTransformers(): readonly ContentTransformer[] {
+        return this.transformers
+    }
+
+    isTransformerEnabled(id: string): boolean {
+        return this.transformers.some(t => t.id === id) && this.isEnabled(id)
+    }
+
+    // Applies the enabled transformers in order. Errors are wrapped in a ContentTransformerError naming the step.
+    // inspect receives the input of each enabled step, e.g. to report what the step changes.
+    async transform(content: string, context: TransformContext, inspect?: (transformerId: string, input: string) => void): Promise<string> {
+        let result = content
+        for (const transformer of this.transformers) {
+            if (!this.isEnabled(transformer.id)) continue
+            inspect?.(transformer.id, result)
+            try {
+                result = await transformer.transform(result, context)
+            } catch (error) {
+                throw new ContentTransformerError(transformer.id, context.file.path, error)
+            }
+        }
+        return result
+    }
+}
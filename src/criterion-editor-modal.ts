@@ -1,5 +1,9 @@
-import { App, Modal, Setting, ButtonComponent } from 'obsidian'
-import { CriterionType, TextMatchMode, TagMatchMode, FrontmatterMatchMode, Criterion, PatternCriterion, FrontmatterCriterion, ContentCriterion, TitleCriterion, PathCriterion, AndCriterion, OrCriterion, NotCriterion, TagCriterion, isValidGlobPattern, CRITERION_TYPE_NAMES } from './criterion'
+import { App, Modal, Setting, ButtonComponent, ExtraButtonComponent, Menu, Notice } from 'obsidian'
+import { parseCriterionQuery, formatCriterionQuery, CriterionQueryError } from './criterion-query'
+import { parseDateSpan, parseDuration } from './date-parsing'
+import { MatchPreview, MatchingNotesFinder } from './match-preview'
+import { CriterionPath, CriterionHistory, WrapperType, getParentGroup, replaceCriterionAt, transferChildren, canMoveCriterion, moveCriterion, insertCriterionAfter, removeCriterionAt, wrapCriterionAt, canUnwrapCriterion, unwrapCriterionAt, isGroupCriterion } from './criterion-tree'
+import { CriterionType, TextMatchMode, TagMatchMode, FrontmatterMatchMode, DateSource, DateMatchMode, LinkDirection, Criterion, SerializedCriterion, PatternCriterion, FrontmatterCriterion, FolderCriterion, InheritedCriterion, DEFAULT_FOLDER_MARKER_FILE, ContentCriterion, DateCriterion, TitleCriterion, PathCriterion, AndCriterion, OrCriterion, NotCriterion, TagCriterion, LinkGraphCriterion, ReferenceCriterion, DeserializationContext, isValidGlobPattern, CRITERION_TYPE_NAMES } from './criterion'
 
 // Utility: validate regex pattern
 function isValidRegex(pattern: string): boolean {
@@ -28,6 +32,25 @@ function addRegexField(container: HTMLElement, setting: Setting, getValue: () =>
     )
 }
 
+// Helper to add a text field with live validation of a date or, if isDuration, a duration
+function addDateField(container: HTMLElement, setting: Setting, isDuration: boolean, getValue: () => string, setValue: (v: string) => void) {
+    let errorEl: HTMLElement | null = null
+
+    setting.addText((text) =>
+        text.setValue(getValue())
+            .setPlaceholder(isDuration ? '30d' : 'YYYY-MM-DD')
+            .onChange((value) => {
+                if (errorEl) { errorEl.remove(); errorEl = null }
+
+                const isValid = isDuration ? parseDuration(value) !== null : parseDateSpan(value) !== null
+                if (!isValid) {
+                    errorEl = container.createDiv({ text: isDuration ? 'Invalid duration' : 'Invalid date', cls: 'sp-pattern-error' })
+                }
+                setValue(value)
+            })
+    )
+}
+
 // Helper to add a textarea for line-separated .gitignore-like glob patterns with live validation
 // Supports: * ** ? [chars] ! (negate) # (comment) leading / (anchor)
 export function addGlobField(container: HTMLElement, setting: Setting, getValue: () => string, setValue: (v: string) => void) {
@@ -53,14 +76,52 @@ export function addGlobField(container: HTMLElement, setting: Setting, getValue:
     )
 }
 
+// Helper to add a textarea for editing a criterion as a query with live parsing
+// Calls onParsed with the parsed criterion, or with null if the query is invalid
+export function addQueryField(container: HTMLElement, setting: Setting, context: DeserializationContext, getValue: () => string, onParsed: (criterion: Criterion | null, text: string) => void) {
+    let errorEl: HTMLElement | null = null
+
+    setting.addTextArea((textArea) => {
+        textArea.inputEl.addClass('sp-query-input')
+        textArea.setValue(getValue())
+            .onChange((value) => {
+                if (errorEl) { errorEl.remove(); errorEl = null }
+
+                try {
+                    onParsed(parseCriterionQuery(value, context), value)
+                } catch (error) {
+                    if (!(error instanceof CriterionQueryError)) throw error
+                    errorEl = container.createDiv({ text: error.message, cls: 'sp-pattern-error' })
+                    onParsed(null, value)
+                }
+            })
+    })
+}
+
+// Cut or copied criterion, shared between editors so that criteria can be moved between definitions
+let criterionClipboard: SerializedCriterion | null = null
+
+function isTextInput(target: EventTarget | null): boolean {
+    return target instanceof HTMLTextAreaElement || (target instanceof HTMLInputElement && target.type !== 'checkbox')
+}
+
 export class CriterionEditorModal extends Modal {
     rootCriterion: Criterion
+    matchPreview: MatchPreview | null = null
     onSave: (updatedCriterion: Criterion) => void
-
-    constructor(app: App, criterion: Criterion, onSave: (updatedCriterion: Criterion) => void) {
+    // Query text while editing as text, null if the tree editor is shown
+    queryText: string | null = null
+    isQueryValid = true
+    history: CriterionHistory
+    editorContainer: HTMLElement | null = null
+    undoButton: ExtraButtonComponent | null = null
+    redoButton: ExtraButtonComponent | null = null
+
+    constructor(app: App, private savedCriterion: Criterion, private context: DeserializationContext, private findMatchingNotes: MatchingNotesFinder, onSave: (updatedCriterion: Criterion) => void) {
         super(app)
         // Clone the criterion to avoid modifying the original object directly
-        this.rootCriterion = Criterion.deserialize(criterion.serialize())
+        this.rootCriterion = Criterion.deserialize(savedCriterion.serialize(), context)
+        this.history = new CriterionHistory(this.rootCriterion)
         this.onSave = onSave
     }
 
@@ -71,8 +132,44 @@ export class CriterionEditorModal extends Modal {
         modalEl.addClass('sp-modal-fixed-footer')
         contentEl.createEl('h2', { text: 'Edit publishing criterion' })
 
+        new Setting(contentEl)
+            .setName('Edit as text')
+            .setDesc('Edit the criterion as a text query. See the readme for the syntax.')
+            .addToggle((toggle) => toggle
+                .setValue(false)
+                .onChange((value) => {
+                    if (value === (this.queryText !== null)) return
+                    if (!value && !this.isQueryValid) {
+                        new Notice('Fix the query before switching to the tree editor.')
+                        toggle.setValue(true)
+                        return
+                    }
+                    this.queryText = value ? formatCriterionQuery(this.rootCriterion) : null
+                    if (!value) this.history.record(this.rootCriterion)
+                    this.renderEditor(outerCriterionContainer)
+                }))
+
         const outerCriterionContainer = contentEl.createDiv({ cls: 'sp-outer-criterion-container' })
-        this.renderCriterion(outerCriterionContainer, this.rootCriterion, 0, null, -1)
+        this.editorContainer = outerCriterionContainer
+        this.renderEditor(outerCriterionContainer)
+        // Field edits are recorded for undo once they are committed, e.g. when a text field loses focus
+        outerCriterionContainer.addEventListener('change', () => {
+            if (this.queryText !== null) return
+            this.history.record(this.rootCriterion)
+            this.updateHistoryButtons()
+        })
+        this.scope.register(['Mod'], 'z', (evt) => this.handleHistoryKey(evt, false))
+        this.scope.register(['Mod', 'Shift'], 'z', (evt) => this.handleHistoryKey(evt, true))
+        this.scope.register(['Mod'], 'y', (evt) => this.handleHistoryKey(evt, true))
+
+        new Setting(contentEl).setName('Matching notes').setHeading()
+        this.matchPreview = new MatchPreview(contentEl, this.findMatchingNotes, this.savedCriterion, this.rootCriterion)
+        // Field handlers update the criterion before the events bubble up to the container
+        for (const eventType of ['input', 'change', 'click']) {
+            outerCriterionContainer.addEventListener(eventType, () => {
+                if (this.isQueryValid) this.matchPreview?.update(this.rootCriterion)
+            })
+        }
 
         const btnContainer = modalEl.createDiv('modal-button-container')
 
@@ -80,6 +177,10 @@ export class CriterionEditorModal extends Modal {
             .setButtonText('Save')
             .setCta()
             .onClick(() => {
+                if (!this.isQueryValid) {
+                    new Notice('The query is invalid and cannot be saved.')
+                    return
+                }
                 this.onSave(this.rootCriterion)
                 this.close()
             })
@@ -91,7 +192,141 @@ export class CriterionEditorModal extends Modal {
             })
     }
 
-    renderCriterion(container: HTMLElement, criterion: Criterion, depth: number, parent: AndCriterion | OrCriterion | NotCriterion | null, index: number, onDelete?: () => void) {
+    onClose() {
+        this.matchPreview?.cancel()
+        this.contentEl.empty()
+    }
+
+    renderEditor(container: HTMLElement) {
+        if (this.queryText === null) {
+            container.empty()
+            new Setting(container)
+                .setClass('sp-criterion-toolbar')
+                .addExtraButton((btn) => {
+                    this.undoButton = btn.setIcon('undo-2').setTooltip('Undo').onClick(() => this.undo())
+                })
+                .addExtraButton((btn) => {
+                    this.redoButton = btn.setIcon('redo-2').setTooltip('Redo').onClick(() => this.redo())
+                })
+            this.updateHistoryButtons()
+            this.renderCriterion(container.createDiv(), this.rootCriterion, [])
+            return
+        }
+
+        container.empty()
+        const querySetting = new Setting(container).setClass('sp-query-setting')
+        addQueryField(container, querySetting, this.context, () => this.queryText ?? '', (criterion, text) => {
+            this.queryText = text
+            this.isQueryValid = criterion !== null
+            if (criterion) this.rootCriterion = criterion
+        })
+    }
+
+    // Replaces the root criterion after a structural edit, records it for undo and renders the tree again
+    applyEdit(root: Criterion) {
+        this.rootCriterion = root
+        this.history.record(root)
+        this.rerender()
+    }
+
+    undo() {
+        const state = this.history.undo()
+        if (state) this.restore(state)
+    }
+
+    redo() {
+        const state = this.history.redo()
+        if (state) this.restore(state)
+    }
+
+    private restore(state: SerializedCriterion) {
+        this.rootCriterion = Criterion.deserialize(state, this.context)
+        this.rerender()
+    }
+
+    private rerender() {
+        if (this.editorContainer) this.renderEditor(this.editorContainer)
+        this.matchPreview?.update(this.rootCriterion)
+    }
+
+    private updateHistoryButtons() {
+        this.undoButton?.setDisabled(!this.history.canUndo())
+        this.redoButton?.setDisabled(!this.history.canRedo())
+    }
+
+    // Undo and redo shortcuts apply to the tree, except in text fields, which have their own undo
+    private handleHistoryKey(evt: KeyboardEvent, isRedo: boolean): boolean {
+        if (this.queryText !== null || isTextInput(evt.target)) return true
+        if (isRedo) this.redo()
+        else this.undo()
+        return false
+    }
+
+    private pasteCriterion(): Criterion | null {
+        if (!criterionClipboard) return null
+        try {
+            return Criterion.deserialize(criterionClipboard, this.context)
+        } catch (error) {
+            new Notice((error as Error).message)
+            return null
+        }
+    }
+
+    private showCriterionMenu(button: ExtraButtonComponent, criterion: Criterion, path: CriterionPath) {
+        const root = this.rootCriterion
+        const isInGroup = getParentGroup(root, path) !== null
+        const menu = new Menu()
+
+        if (isInGroup) {
+            menu.addItem((item) => item.setTitle('Duplicate').setIcon('copy-plus').onClick(() => {
+                insertCriterionAfter(root, path, Criterion.deserialize(criterion.serialize(), this.context))
+                this.applyEdit(root)
+            }))
+        }
+        menu.addItem((item) => item.setTitle('Copy').setIcon('copy').onClick(() => {
+            criterionClipboard = criterion.serialize()
+        }))
+        if (isInGroup) {
+            menu.addItem((item) => item.setTitle('Cut').setIcon('scissors').onClick(() => {
+                criterionClipboard = criterion.serialize()
+                removeCriterionAt(root, path)
+                this.applyEdit(root)
+            }))
+            menu.addItem((item) => item.setTitle('Paste after').setIcon('clipboard-paste').setDisabled(!criterionClipboard).onClick(() => {
+                const pasted = this.pasteCriterion()
+                if (!pasted) return
+                insertCriterionAfter(root, path, pasted)
+                this.applyEdit(root)
+            }))
+        }
+        if (isGroupCriterion(criterion)) {
+            menu.addItem((item) => item.setTitle('Paste as sub-criterion').setIcon('clipboard-paste').setDisabled(!criterionClipboard).onClick(() => {
+                const pasted = this.pasteCriterion()
+                if (!pasted) return
+                criterion.criteria.push(pasted)
+                this.applyEdit(root)
+            }))
+        }
+        menu.addItem((item) => item.setTitle('Replace with pasted criterion').setIcon('replace').setDisabled(!criterionClipboard).onClick(() => {
+            const pasted = this.pasteCriterion()
+            if (pasted) this.applyEdit(replaceCriterionAt(root, path, pasted))
+        }))
+
+        menu.addSeparator()
+        for (const type of ['And', 'Or', 'Not'] as WrapperType[]) {
+            menu.addItem((item) => item.setTitle(`Wrap in ${type.toUpperCase()}`).setIcon('brackets').onClick(() => {
+                this.applyEdit(wrapCriterionAt(root, path, type))
+            }))
+        }
+        menu.addItem((item) => item.setTitle('Unwrap').setIcon('ungroup').setDisabled(!canUnwrapCriterion(root, path)).onClick(() => {
+            this.applyEdit(unwrapCriterionAt(root, path))
+        }))
+
+        const rect = button.extraSettingsEl.getBoundingClientRect()
+        menu.showAtPosition({ x: rect.left, y: rect.bottom })
+    }
+
+    renderCriterion(container: HTMLElement, criterion: Criterion, path: CriterionPath) {
         container.empty()
 
         const criterionContainer = container.createDiv({ cls: 'sp-criterion-container' })
@@ -105,26 +340,44 @@ export class CriterionEditorModal extends Modal {
 
                 dropdown.setValue(criterion.getType())
                     .onChange((value: string) => {
-                        const newCriterion = this.createDefaultCriterionByType(value as CriterionType)
-
-                        if (depth === 0) {
-                            this.rootCriterion = newCriterion
-                        } else if (parent instanceof AndCriterion || parent instanceof OrCriterion) {
-                            parent.criteria[index] = newCriterion
-                        } else if (parent instanceof NotCriterion) {
-                            parent.criterion = newCriterion
-                        }
-
-                        this.renderCriterion(container, newCriterion, depth, parent, index, onDelete)
+                        // Sub-criteria are kept if the new type can hold them
+                        const newCriterion = transferChildren(criterion, this.createDefaultCriterionByType(value as CriterionType))
+                        this.applyEdit(replaceCriterionAt(this.rootCriterion, path, newCriterion))
                     })
             })
 
-        if (onDelete) {
+        const isInGroup = getParentGroup(this.rootCriterion, path) !== null
+        if (isInGroup) {
+            headerSetting
+                .addExtraButton((btn) => btn
+                    .setIcon('arrow-up')
+                    .setTooltip('Move up')
+                    .setDisabled(!canMoveCriterion(this.rootCriterion, path, -1))
+                    .onClick(() => {
+                        moveCriterion(this.rootCriterion, path, -1)
+                        this.applyEdit(this.rootCriterion)
+                    }))
+                .addExtraButton((btn) => btn
+                    .setIcon('arrow-down')
+                    .setTooltip('Move down')
+                    .setDisabled(!canMoveCriterion(this.rootCriterion, path, 1))
+                    .onClick(() => {
+                        moveCriterion(this.rootCriterion, path, 1)
+                        this.applyEdit(this.rootCriterion)
+                    }))
+        }
+        headerSetting.addExtraButton((btn) => btn
+            .setIcon('more-vertical')
+            .setTooltip('More actions')
+            .onClick(() => this.showCriterionMenu(btn, criterion, path)))
+        if (isInGroup) {
             headerSetting.addExtraButton((btn) => btn
                 .setIcon('cross')
                 .setTooltip('Remove criterion')
-                .onClick(onDelete)
-            )
+                .onClick(() => {
+                    removeCriterionAt(this.rootCriterion, path)
+                    this.applyEdit(this.rootCriterion)
+                }))
         }
 
         const makeSubcriterionContainer = (): HTMLElement => {
@@ -134,6 +387,7 @@ export class CriterionEditorModal extends Modal {
         // Render type-specific fields
         if (criterion instanceof FrontmatterCriterion) {
             new Setting(criterionContainer).setName('Property name')
+                .setDesc('Nested properties can be addressed with dots.')
                 .addText((text) => text.setValue(criterion.key).onChange((v) => criterion.key = v))
             const propertySetting = new Setting(criterionContainer).setName('Property value')
                 .addDropdown((dropdown) => {
@@ -142,16 +396,35 @@ export class CriterionEditorModal extends Modal {
                     dropdown.setValue(criterion.matchMode)
                         .onChange((v) => {
                             criterion.matchMode = v as FrontmatterMatchMode
-                            this.renderCriterion(container, criterion, depth, parent, index, onDelete)
+                            this.renderCriterion(container, criterion, path)
                         })
                 })
 
-            if (criterion.matchMode !== FrontmatterMatchMode.Exists) {
-                if (criterion.matchMode === FrontmatterMatchMode.Regex) {
+            switch (criterion.matchMode) {
+                case FrontmatterMatchMode.Exists:
+                case FrontmatterMatchMode.IsTrue:
+                case FrontmatterMatchMode.IsFalse:
+                case FrontmatterMatchMode.IsEmpty:
+                    break
+                case FrontmatterMatchMode.Regex:
                     addRegexField(criterionContainer, propertySetting, () => criterion.value, (v) => criterion.value = v)
-                } else {
+                    break
+                case FrontmatterMatchMode.GreaterThan:
+                case FrontmatterMatchMode.LessThan:
+                    propertySetting.addText((text) => {
+                        text.inputEl.type = 'number'
+                        text.setValue(criterion.value).onChange((v) => criterion.value = v)
+                    })
+                    break
+                case FrontmatterMatchMode.ListHasAny:
+                case FrontmatterMatchMode.ListHasAll:
+                    propertySetting.addText((text) => text.setValue(criterion.value)
+                        .setPlaceholder('Comma-separated values')
+                        .onChange((v) => criterion.value = v))
+                    break
+                default:
                     propertySetting.addText((text) => text.setValue(criterion.value).onChange((v) => criterion.value = v))
-                }
+                    break
             }
 
         } else if (criterion instanceof TagCriterion) {
@@ -162,11 +435,26 @@ export class CriterionEditorModal extends Modal {
                     dropdown.setValue(criterion.matchMode)
                         .onChange((v) => {
                             criterion.matchMode = v as TagMatchMode
-                            this.renderCriterion(container, criterion, depth, parent, index, onDelete)
+                            this.renderCriterion(container, criterion, path)
                         })
                 })
                 .addText((text) => text.setValue(criterion.tag).onChange((v) => criterion.tag = v))
 
+        } else if (criterion instanceof FolderCriterion) {
+            new Setting(criterionContainer).setName('Folder')
+                .setDesc('Vault path of the folder. Leave empty for the vault root.')
+                .addText((text) => text.setValue(criterion.folder).onChange((v) => criterion.folder = v))
+            new Setting(criterionContainer).setName('Include subfolders')
+                .addToggle((toggle) => toggle.setValue(criterion.recursive).onChange((v) => criterion.recursive = v))
+
+        } else if (criterion instanceof InheritedCriterion) {
+            new Setting(criterionContainer).setName('Property name')
+                .setDesc('Boolean property that notes inherit from the nearest folder that sets it, unless they set it themselves.')
+                .addText((text) => text.setValue(criterion.key).onChange((v) => criterion.key = v))
+            new Setting(criterionContainer).setName('Marker file name')
+                .setDesc('Note in a folder whose properties apply to the folder. Otherwise, the folder note (named like the folder) is used.')
+                .addText((text) => text.setValue(criterion.markerFile).onChange((v) => criterion.markerFile = v))
+
         } else if (criterion instanceof PatternCriterion) {
             const patternSetting = new Setting(criterionContainer).setName(criterion.getType())
             patternSetting.addDropdown((dropdown) => {
@@ -175,7 +463,7 @@ export class CriterionEditorModal extends Modal {
                 dropdown.setValue(criterion.matchMode)
                     .onChange((v) => {
                         criterion.matchMode = v as TextMatchMode
-                        this.renderCriterion(container, criterion, depth, parent, index, onDelete)
+                        this.renderCriterion(container, criterion, path)
                     })
             })
             switch (criterion.matchMode) {
@@ -191,27 +479,98 @@ export class CriterionEditorModal extends Modal {
                     break
             }
 
+        } else if (criterion instanceof DateCriterion) {
+            new Setting(criterionContainer).setName('Date')
+                .addDropdown((dropdown) => {
+                    for (const source of Object.values(DateSource))
+                        dropdown.addOption(source, source)
+                    dropdown.setValue(criterion.source)
+                        .onChange((v) => {
+                            criterion.source = v as DateSource
+                            this.renderCriterion(container, criterion, path)
+                        })
+                })
+            if (criterion.source === DateSource.Frontmatter) {
+                new Setting(criterionContainer).setName('Property name')
+                    .addText((text) => text.setValue(criterion.key).onChange((v) => criterion.key = v))
+            }
+            const comparisonSetting = new Setting(criterionContainer).setName('Comparison')
+                .setDesc('Dates such as 2024-05-01, today or -30d. Durations such as 30d, 2 weeks or 6 months.')
+                .addDropdown((dropdown) => {
+                    for (const mode of Object.values(DateMatchMode))
+                        dropdown.addOption(mode, mode)
+                    dropdown.setValue(criterion.matchMode)
+                        .onChange((v) => {
+                            criterion.matchMode = v as DateMatchMode
+                            this.renderCriterion(container, criterion, path)
+                        })
+                })
+            const isDuration = criterion.matchMode === DateMatchMode.WithinLast
+            addDateField(criterionContainer, comparisonSetting, isDuration, () => criterion.value, (v) => criterion.value = v)
+            if (criterion.matchMode === DateMatchMode.Between) {
+                addDateField(criterionContainer, comparisonSetting, false, () => criterion.endValue, (v) => criterion.endValue = v)
+            }
+
         } else if (criterion instanceof ContentCriterion) {
             const setting = new Setting(criterionContainer).setName('Content regex')
             addRegexField(criterionContainer, setting, () => criterion.regex, (v) => criterion.regex = v)
 
+        } else if (criterion instanceof LinkGraphCriterion) {
+            new Setting(criterionContainer).setName('Follow')
+                .addDropdown((dropdown) => {
+                    for (const direction of Object.values(LinkDirection))
+                        dropdown.addOption(direction, direction)
+                    dropdown.setValue(criterion.direction)
+                        .onChange((v) => criterion.direction = v as LinkDirection)
+                })
+            new Setting(criterionContainer).setName('Maximum number of hops')
+                .setDesc('0 publishes only the root notes.')
+                .addText((text) => {
+                    text.inputEl.type = 'number'
+                    text.inputEl.min = '0'
+                    text.setValue(String(criterion.maxDepth))
+                        .onChange((v) => {
+                            const depth = parseInt(v, 10)
+                            if (!isNaN(depth) && depth >= 0) criterion.maxDepth = depth
+                        })
+                })
+            new Setting(criterionContainer).setName('Root notes').setHeading()
+            this.renderCriterion(makeSubcriterionContainer(), criterion.criterion, [...path, 0])
+
+        } else if (criterion instanceof ReferenceCriterion) {
+            new Setting(criterionContainer).setName('Definition')
+                .setDesc('A named criterion from the definitions in the settings.')
+                .addDropdown((dropdown) => {
+                    const names = Object.keys(this.context.definitions)
+                    if (!names.includes(criterion.name))
+                        dropdown.addOption(criterion.name, criterion.name ? `${criterion.name} (missing)` : 'No definition selected')
+                    for (const name of names)
+                        dropdown.addOption(name, name)
+                    dropdown.setValue(criterion.name)
+                        .onChange((v) => {
+                            try {
+                                const resolved = Criterion.deserialize({ type: 'Reference', name: v }, this.context) as ReferenceCriterion
+                                criterion.name = resolved.name
+                                criterion.target = resolved.target
+                            } catch (error) {
+                                new Notice((error as Error).message)
+                                dropdown.setValue(criterion.name)
+                            }
+                        })
+                })
+
         } else if (criterion instanceof AndCriterion || criterion instanceof OrCriterion) {
             criterion.criteria.forEach((sub, i) => {
-                const subContainer = makeSubcriterionContainer()
-                const subOnDelete = () => {
-                    criterion.criteria.splice(i, 1)
-                    this.renderCriterion(container, criterion, depth, parent, index, onDelete)
-                }
-                this.renderCriterion(subContainer, sub, depth + 1, criterion, i, subOnDelete)
+                this.renderCriterion(makeSubcriterionContainer(), sub, [...path, i])
             })
             new Setting(criterionContainer).addButton((btn) => btn
                 .setButtonText('Add sub-criterion').onClick(() => {
                     criterion.criteria.push(this.createDefaultCriterionByType('Frontmatter'))
-                    this.renderCriterion(container, criterion, depth, parent, index, onDelete)
+                    this.applyEdit(this.rootCriterion)
                 }))
 
         } else if (criterion instanceof NotCriterion) {
-            this.renderCriterion(makeSubcriterionContainer(), criterion.criterion, depth + 1, criterion, 0)
+            this.renderCriterion(makeSubcriterionContainer(), criterion.criterion, [...path, 0])
         }
     }
 
@@ -219,9 +578,14 @@ export class CriterionEditorModal extends Modal {
         switch (type) {
             case 'Tag': return new TagCriterion('public')
             case 'Frontmatter': return new FrontmatterCriterion('public', 'true', FrontmatterMatchMode.Equals)
+            case 'Folder': return new FolderCriterion('', true)
+            case 'Inherited': return new InheritedCriterion('publish', DEFAULT_FOLDER_MARKER_FILE)
             case 'Title': return new TitleCriterion('^[^_].*', TextMatchMode.Regex)
             case 'Path': return new PathCriterion('^**/.*\n_*', TextMatchMode.Glob)
             case 'Content': return new ContentCriterion('^(?!.*#todo)(?!.*#private).*')
+            case 'Date': return new DateCriterion(DateSource.Modified, 'date', DateMatchMode.WithinLast, '30d')
+            case 'LinkGraph': return new LinkGraphCriterion(new TagCriterion('public'), 1, LinkDirection.Outgoing)
+            case 'Reference': return new ReferenceCriterion('')
             case 'And': return new AndCriterion([this.createDefaultCriterionByType('Tag')])
             case 'Or': return new OrCriterion([this.createDefaultCriterionByType('Tag')])
             case 'Not': return new NotCriterion(new TagCriterion('private'))
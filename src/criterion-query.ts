@@ -0,0 +1,508 @@
+import { Criterion, TextMatchMode, TagMatchMode, FrontmatterMatchMode, DateSource, DateMatchMode, LinkDirection, FrontmatterCriterion, FolderCriterion, InheritedCriterion, DEFAULT_FOLDER_MARKER_FILE, ContentCriterion, DateCriterion, TitleCriterion, PathCriterion, AndCriterion, OrCriterion, NotCriterion, TagCriterion, LinkGraphCriterion, ReferenceCriterion, CriterionReferenceCycleError, DeserializationContext } from './criterion'
+
+/**
+ * Textual query language for publishing criteria.
+ *
+ * Grammar (keywords are case-insensitive):
+ *
+ *     expr    := and ('or' and)*
+ *     and     := unary ('and' unary)*
+ *     unary   := 'not' unary | '(' expr ')' | call | atom
+ *     call    := ('and' | 'or') '(' [expr (',' expr)*] ')'
+ *     atom    := 'tag' ('equals' | 'startswith' | 'includes') value
+ *              | 'frontmatter' value 'exists' ['value' value]
+ *              | 'frontmatter' value 'is' ('true' | 'false' | 'empty') ['value' value]
+ *              | 'frontmatter' value ('=' | 'equals' | 'contains' | 'matches' | '>' | '<' | 'has' | 'hasany' | 'hasall') value
+ *              | 'folder' value ['only']
+ *              | 'inherited' value ['marker' value]
+ *              | ('title' | 'path') ('contains' | 'matches' | 'glob') value
+ *              | 'content' 'matches' value
+ *              | 'date' ('created' | 'modified' | 'frontmatter' value) date_cmp
+ *              | 'linked' ('outgoing' | 'backlinks' | 'both') number 'from' unary
+ *              | 'ref' value
+ *     date_cmp := ('before' | 'after') value | 'between' value 'and' value | 'within' value
+ *     value   := word | "quoted string"
+ *
+ * AND/OR nodes with fewer than two children are written in the call form,
+ * e.g. `and(tag equals public)`, and frontmatter tests that ignore their value keep it
+ * in a `value` clause, so that every tree round-trips exactly.
+ */
+
+export class CriterionQueryError extends Error {
+    constructor(message: string, public readonly position: number, public readonly line: number, public readonly column: number) {
+        super(`${message} (line ${line}, column ${column})`)
+        this.name = 'CriterionQueryError'
+    }
+}
+
+// Tokenizer
+
+type TokenKind = 'word' | 'string' | 'lparen' | 'rparen' | 'comma' | 'equals' | 'eof'
+
+interface Token {
+    kind: TokenKind
+    value: string
+    start: number
+    end: number
+}
+
+const PUNCTUATION: Record<string, TokenKind> = {
+    '(': 'lparen',
+    ')': 'rparen',
+    ',': 'comma',
+    '=': 'equals',
+}
+
+function isWordChar(char: string): boolean {
+    return !/\s/.test(char) && !(char in PUNCTUATION) && char !== '"'
+}
+
+const STRING_ESCAPES: Record<string, string> = { n: '\n', t: '\t', '"': '"', '\\': '\\' }
+
+class Tokenizer {
+    private pos = 0
+
+    constructor(private text: string) { }
+
+    tokenize(): Token[] {
+        const tokens: Token[] = []
+        for (; ;) {
+            while (this.pos < this.text.length && /\s/.test(this.text[this.pos]!)) this.pos++
+            if (this.pos >= this.text.length) {
+                tokens.push({ kind: 'eof', value: '', start: this.pos, end: this.pos })
+                return tokens
+            }
+
+            const start = this.pos
+            const char = this.text[this.pos]!
+            const punctuation = PUNCTUATION[char]
+            if (punctuation) {
+                this.pos++
+                tokens.push({ kind: punctuation, value: char, start, end: this.pos })
+            } else if (char === '"') {
+                tokens.push({ kind: 'string', value: this.readString(), start, end: this.pos })
+            } else {
+                while (this.pos < this.text.length && isWordChar(this.text[this.pos]!)) this.pos++
+                tokens.push({ kind: 'word', value: this.text.slice(start, this.pos), start, end: this.pos })
+            }
+        }
+    }
+
+    private readString(): string {
+        const start = this.pos
+        let value = ''
+        this.pos++  // Opening quote
+        while (this.pos < this.text.length) {
+            const char = this.text[this.pos]!
+            if (char === '"') {
+                this.pos++
+                return value
+            }
+            if (char === '\\') {
+                const escaped = this.text[this.pos + 1]
+                const replacement = escaped !== undefined ? STRING_ESCAPES[escaped] : undefined
+                if (replacement === undefined) {
+                    throw createError(this.text, this.pos, 'Invalid escape sequence in string')
+                }
+                value += replacement
+                this.pos += 2
+            } else {
+                value += char
+                this.pos++
+            }
+        }
+        throw createError(this.text, start, 'Unterminated string')
+    }
+}
+
+function createError(text: string, position: number, message: string): CriterionQueryError {
+    const before = text.slice(0, position).split('\n')
+    return new CriterionQueryError(message, position, before.length, before[before.length - 1]!.length + 1)
+}
+
+// Parser
+
+const TAG_MODES: Record<string, TagMatchMode> = {
+    equals: TagMatchMode.Equals,
+    startswith: TagMatchMode.StartsWith,
+    includes: TagMatchMode.Includes,
+}
+
+const TEXT_MODES: Record<string, TextMatchMode> = {
+    contains: TextMatchMode.Contains,
+    matches: TextMatchMode.Regex,
+    glob: TextMatchMode.Glob,
+}
+
+// The first key of a mode is the one used when formatting
+const FRONTMATTER_MODES: Record<string, FrontmatterMatchMode> = {
+    '=': FrontmatterMatchMode.Equals,
+    equals: FrontmatterMatchMode.Equals,
+    contains: FrontmatterMatchMode.Contains,
+    matches: FrontmatterMatchMode.Regex,
+    '>': FrontmatterMatchMode.GreaterThan,
+    '<': FrontmatterMatchMode.LessThan,
+    has: FrontmatterMatchMode.ListContains,
+    hasany: FrontmatterMatchMode.ListHasAny,
+    hasall: FrontmatterMatchMode.ListHasAll,
+}
+
+const FRONTMATTER_IS_MODES: Record<string, FrontmatterMatchMode> = {
+    true: FrontmatterMatchMode.IsTrue,
+    false: FrontmatterMatchMode.IsFalse,
+    empty: FrontmatterMatchMode.IsEmpty,
+}
+
+const DATE_SOURCES: Record<string, DateSource> = {
+    created: DateSource.Created,
+    modified: DateSource.Modified,
+    frontmatter: DateSource.Frontmatter,
+}
+
+const DATE_MODES: Record<string, DateMatchMode> = {
+    before: DateMatchMode.Before,
+    after: DateMatchMode.After,
+    between: DateMatchMode.Between,
+    within: DateMatchMode.WithinLast,
+}
+
+const LINK_DIRECTIONS: Record<string, LinkDirection> = {
+    outgoing: LinkDirection.Outgoing,
+    backlinks: LinkDirection.Backlinks,
+    both: LinkDirection.Both,
+}
+
+class Parser {
+    private tokens: Token[]
+    private index = 0
+
+    constructor(private text: string, private context?: DeserializationContext) {
+        this.tokens = new Tokenizer(text).tokenize()
+    }
+
+    parse(): Criterion {
+        const criterion = this.parseOr()
+        const token = this.peek()
+        if (token.kind !== 'eof') {
+            throw this.error(token, `Unexpected ${describeToken(token)}`)
+        }
+        return criterion
+    }
+
+    private parseOr(): Criterion {
+        const operands = [this.parseAnd()]
+        while (this.isKeyword(this.peek(), 'or')) {
+            this.next()
+            operands.push(this.parseAnd())
+        }
+        return operands.length === 1 ? operands[0]! : new OrCriterion(operands)
+    }
+
+    private parseAnd(): Criterion {
+        const operands = [this.parseUnary()]
+        while (this.isKeyword(this.peek(), 'and')) {
+            this.next()
+            operands.push(this.parseUnary())
+        }
+        return operands.length === 1 ? operands[0]! : new AndCriterion(operands)
+    }
+
+    private parseUnary(): Criterion {
+        const token = this.peek()
+        if (token.kind === 'lparen') {
+            this.next()
+            const criterion = this.parseOr()
+            this.expect('rparen', "')'")
+            return criterion
+        }
+        if (token.kind !== 'word') {
+            throw this.error(token, `Expected a criterion but found ${describeToken(token)}`)
+        }
+
+        const keyword = token.value.toLowerCase()
+        if (keyword === 'not') {
+            this.next()
+            return new NotCriterion(this.parseUnary())
+        }
+        if ((keyword === 'and' || keyword === 'or') && this.peek(1).kind === 'lparen') {
+            this.next()
+            return this.parseCall(keyword)
+        }
+
+        this.next()
+        switch (keyword) {
+            case 'tag': {
+                const mode = this.expectMode(TAG_MODES, 'tag match mode')
+                return new TagCriterion(this.expectValue(), mode)
+            }
+            case 'frontmatter': {
+                const key = this.expectValue()
+                if (this.isKeyword(this.peek(), 'exists')) {
+                    this.next()
+                    return new FrontmatterCriterion(key, this.parseUnusedValue(), FrontmatterMatchMode.Exists)
+                }
+                if (this.isKeyword(this.peek(), 'is')) {
+                    this.next()
+                    const mode = this.expectMode(FRONTMATTER_IS_MODES, 'frontmatter value test')
+                    return new FrontmatterCriterion(key, this.parseUnusedValue(), mode)
+                }
+                const mode = this.expectMode(FRONTMATTER_MODES, "'exists', 'is' or a frontmatter match mode")
+                return new FrontmatterCriterion(key, this.expectValue(), mode)
+            }
+            case 'folder': {
+                const folder = this.expectValue()
+                const recursive = !this.isKeyword(this.peek(), 'only')
+                if (!recursive) this.next()
+                return new FolderCriterion(folder, recursive)
+            }
+            case 'inherited': {
+                const key = this.expectValue()
+                if (!this.isKeyword(this.peek(), 'marker')) return new InheritedCriterion(key)
+                this.next()
+                return new InheritedCriterion(key, this.expectValue())
+            }
+            case 'title': {
+                const mode = this.expectMode(TEXT_MODES, 'text match mode')
+                return new TitleCriterion(this.expectValue(), mode)
+            }
+            case 'path': {
+                const mode = this.expectMode(TEXT_MODES, 'text match mode')
+                return new PathCriterion(this.expectValue(), mode)
+            }
+            case 'content': {
+                this.expectKeyword('matches')
+                return new ContentCriterion(this.expectValue())
+            }
+            case 'date': {
+                const source = this.expectMode(DATE_SOURCES, 'date source')
+                const key = source === DateSource.Frontmatter ? this.expectValue() : ''
+                const mode = this.expectMode(DATE_MODES, 'date comparison')
+                const value = this.expectValue()
+                let endValue = ''
+                if (mode === DateMatchMode.Between) {
+                    this.expectKeyword('and')
+                    endValue = this.expectValue()
+                }
+                return new DateCriterion(source, key, mode, value, endValue)
+            }
+            case 'linked': {
+                const direction = this.expectMode(LINK_DIRECTIONS, 'link direction')
+                const maxDepth = this.expectNumber()
+                this.expectKeyword('from')
+                return new LinkGraphCriterion(this.parseUnary(), maxDepth, direction)
+            }
+            case 'ref':
+                return this.parseReference()
+            default:
+                throw this.error(token, `Unknown criterion '${token.value}'`)
+        }
+    }
+
+    // Optional value of a frontmatter test that does not compare it
+    private parseUnusedValue(): string {
+        if (!this.isKeyword(this.peek(), 'value')) return ''
+        this.next()
+        return this.expectValue()
+    }
+
+    private parseReference(): Criterion {
+        const token = this.peek()
+        const name = this.expectValue()
+        if (!this.context) {
+            return new ReferenceCriterion(name)
+        }
+        if (!(name in this.context.definitions)) {
+            throw this.error(token, `Unknown criterion definition '${name}'`)
+        }
+        try {
+            return Criterion.deserialize({ type: 'Reference', name }, this.context)
+        } catch (error) {
+            if (!(error instanceof CriterionReferenceCycleError)) throw error
+            throw this.error(token, error.message)
+        }
+    }
+
+    private parseCall(keyword: 'and' | 'or'): Criterion {
+        this.expect('lparen', "'('")
+        const operands: Criterion[] = []
+        if (this.peek().kind !== 'rparen') {
+            operands.push(this.parseOr())
+            while (this.peek().kind === 'comma') {
+                this.next()
+                operands.push(this.parseOr())
+            }
+        }
+        this.expect('rparen', "')' or ','")
+        return keyword === 'and' ? new AndCriterion(operands) : new OrCriterion(operands)
+    }
+
+    private peek(offset = 0): Token {
+        return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)]!
+    }
+
+    private next(): Token {
+        const token = this.peek()
+        if (token.kind !== 'eof') this.index++
+        return token
+    }
+
+    private isKeyword(token: Token, keyword: string): boolean {
+        return token.kind === 'word' && token.value.toLowerCase() === keyword
+    }
+
+    private expect(kind: TokenKind, description: string): Token {
+        const token = this.peek()
+        if (token.kind !== kind) {
+            throw this.error(token, `Expected ${description} but found ${describeToken(token)}`)
+        }
+        return this.next()
+    }
+
+    private expectKeyword(keyword: string) {
+        const token = this.peek()
+        if (!this.isKeyword(token, keyword)) {
+            throw this.error(token, `Expected '${keyword}' but found ${describeToken(token)}`)
+        }
+        this.next()
+    }
+
+    private expectMode<T>(modes: Record<string, T>, description: string): T {
+        const token = this.peek()
+        const mode = token.kind === 'word' || token.kind === 'equals' ? modes[token.value.toLowerCase()] : undefined
+        if (mode === undefined) {
+            const options = Object.keys(modes).map(m => `'${m}'`).join(', ')
+            throw this.error(token, `Expected ${description} (${options}) but found ${describeToken(token)}`)
+        }
+        this.next()
+        return mode
+    }
+
+    private expectValue(): string {
+        const token = this.peek()
+        if (token.kind !== 'word' && token.kind !== 'string') {
+            throw this.error(token, `Expected a value but found ${describeToken(token)}`)
+        }
+        this.next()
+        return token.value
+    }
+
+    private expectNumber(): number {
+        const token = this.peek()
+        if (token.kind !== 'word' || !/^\d+$/.test(token.value)) {
+            throw this.error(token, `Expected a non-negative integer but found ${describeToken(token)}`)
+        }
+        this.next()
+        return parseInt(token.value, 10)
+    }
+
+    private error(token: Token, message: string): CriterionQueryError {
+        return createError(this.text, token.start, message)
+    }
+}
+
+function describeToken(token: Token): string {
+    switch (token.kind) {
+        case 'eof': return 'end of input'
+        case 'string': return `string "${token.value}"`
+        default: return `'${token.value}'`
+    }
+}
+
+/**
+ * Parses a textual query into a criterion tree.
+ * If a context is given, references are resolved and must point to existing definitions.
+ * Throws a CriterionQueryError with the position of the first syntax error.
+ */
+export function parseCriterionQuery(text: string, context?: DeserializationContext): Criterion {
+    return new Parser(text, context).parse()
+}
+
+// Printer
+
+function findKey<T>(modes: Record<string, T>, mode: T): string {
+    return Object.keys(modes).find(key => modes[key] === mode)!
+}
+
+function formatValue(value: string): string {
+    if (value.length > 0 && [...value].every(isWordChar)) {
+        return value
+    }
+    const escaped = value.replace(/[\\"\n\t]/g, (char) => {
+        const escape = Object.keys(STRING_ESCAPES).find(key => STRING_ESCAPES[key] === char)!
+        return `\\${escape}`
+    })
+    return `"${escaped}"`
+}
+
+// Operator precedence: higher binds tighter
+function getPrecedence(criterion: Criterion): number {
+    if (criterion instanceof OrCriterion && criterion.criteria.length >= 2) return 1
+    if (criterion instanceof AndCriterion && criterion.criteria.length >= 2) return 2
+    return 3
+}
+
+function formatOperand(criterion: Criterion, parentPrecedence: number): string {
+    const text = formatCriterionQuery(criterion)
+    // Same-precedence children are parenthesized so that nesting is preserved
+    return getPrecedence(criterion) <= parentPrecedence ? `(${text})` : text
+}
+
+/**
+ * Formats a criterion tree as a query that `parseCriterionQuery` parses back
+ * into an equivalent tree.
+ */
+export function formatCriterionQuery(criterion: Criterion): string {
+    if (criterion instanceof AndCriterion || criterion instanceof OrCriterion) {
+        const operator = criterion instanceof AndCriterion ? 'and' : 'or'
+        if (criterion.criteria.length < 2) {
+            return `${operator}(${criterion.criteria.map(formatCriterionQuery).join(', ')})`
+        }
+        const precedence = getPrecedence(criterion)
+        return criterion.criteria.map(c => formatOperand(c, precedence)).join(` ${operator} `)
+    }
+    if (criterion instanceof NotCriterion) {
+        return `not ${formatOperand(criterion.criterion, 2)}`
+    }
+    if (criterion instanceof DateCriterion) {
+        const source = criterion.source === DateSource.Frontmatter ? `frontmatter ${formatValue(criterion.key)}` : findKey(DATE_SOURCES, criterion.source)
+        const range = criterion.matchMode === DateMatchMode.Between
+            ? `${formatValue(criterion.value)} and ${formatValue(criterion.endValue)}`
+            : formatValue(criterion.value)
+        return `date ${source} ${findKey(DATE_MODES, criterion.matchMode)} ${range}`
+    }
+    if (criterion instanceof LinkGraphCriterion) {
+        const direction = findKey(LINK_DIRECTIONS, criterion.direction)
+        return `linked ${direction} ${criterion.maxDepth} from ${formatOperand(criterion.criterion, 2)}`
+    }
+    if (criterion instanceof ReferenceCriterion) {
+        return `ref ${formatValue(criterion.name)}`
+    }
+    if (criterion instanceof TagCriterion) {
+        return `tag ${findKey(TAG_MODES, criterion.matchMode)} ${formatValue(criterion.tag)}`
+    }
+    if (criterion instanceof FrontmatterCriterion) {
+        const key = formatValue(criterion.key)
+        const unusedValue = criterion.value ? ` value ${formatValue(criterion.value)}` : ''
+        if (criterion.matchMode === FrontmatterMatchMode.Exists) {
+            return `frontmatter ${key} exists${unusedValue}`
+        }
+        if (Object.values(FRONTMATTER_IS_MODES).includes(criterion.matchMode)) {
+            return `frontmatter ${key} is ${findKey(FRONTMATTER_IS_MODES, criterion.matchMode)}${unusedValue}`
+        }
+        return `frontmatter ${key} ${findKey(FRONTMATTER_MODES, criterion.matchMode)} ${formatValue(criterion.value)}`
+    }
+    if (criterion instanceof FolderCriterion) {
+        return `folder ${formatValue(criterion.folder)}${criterion.recursive ? '' : ' only'}`
+    }
+    if (criterion instanceof InheritedCriterion) {
+        const marker = criterion.markerFile === DEFAULT_FOLDER_MARKER_FILE ? '' : ` marker ${formatValue(criterion.markerFile)}`
+        return `inherited ${formatValue(criterion.key)}${marker}`
+    }
+    if (criterion instanceof TitleCriterion || criterion instanceof PathCriterion) {
+        return `${criterion.getType().toLowerCase()} ${findKey(TEXT_MODES, criterion.matchMode)} ${formatValue(criterion.pattern)}`
+    }
+    if (criterion instanceof ContentCriterion) {
+        return `content matches ${formatValue(criterion.regex)}`
+    }
+    throw new Error(`Criterion type ${criterion.getType()} has no query representation`)
+}
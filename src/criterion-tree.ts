@@ -0,0 +1,179 @@
+import { Criterion, SerializedCriterion, AndCriterion, OrCriterion, NotCriterion, LinkGraphCriterion } from './criterion'
+
+/**
+ * Structural edits of a criterion tree for the criterion editor.
+ *
+ * Nodes are addressed by paths of child indexes from the root, e.g. `[1, 0]` is the first child of the
+ * second child of the root. The only child of a NOT or LinkGraph criterion has index 0; references are
+ * leaves, since their targets belong to the definitions. Edits modify the tree in place, and those that
+ * may replace the root return the new root.
+ */
+
+export type CriterionPath = number[]
+
+export type GroupCriterion = AndCriterion | OrCriterion
+
+export type WrapperType = 'And' | 'Or' | 'Not'
+
+export function isGroupCriterion(criterion: Criterion): criterion is GroupCriterion {
+    return criterion instanceof AndCriterion || criterion instanceof OrCriterion
+}
+
+// Children that are edited as part of the tree
+export function getEditableChildren(criterion: Criterion): Criterion[] {
+    if (isGroupCriterion(criterion)) return criterion.criteria
+    if (criterion instanceof NotCriterion || criterion instanceof LinkGraphCriterion) return [criterion.criterion]
+    return []
+}
+
+export function getCriterionAt(root: Criterion, path: CriterionPath): Criterion {
+    let criterion = root
+    for (const index of path) {
+        const child = getEditableChildren(criterion)[index]
+        if (!child) throw new Error(`No criterion at path ${path.join('.')}`)
+        criterion = child
+    }
+    return criterion
+}
+
+// Returns the AND/OR group containing the node, or null if the node is the root or the child of another criterion
+export function getParentGroup(root: Criterion, path: CriterionPath): GroupCriterion | null {
+    if (path.length === 0) return null
+    const parent = getCriterionAt(root, path.slice(0, -1))
+    return isGroupCriterion(parent) ? parent : null
+}
+
+/**
+ * Replaces the node at the path and returns the root.
+ */
+export function replaceCriterionAt(root: Criterion, path: CriterionPath, replacement: Criterion): Criterion {
+    if (path.length === 0) return replacement
+    const parent = getCriterionAt(root, path.slice(0, -1))
+    const index = path[path.length - 1]!
+    if (isGroupCriterion(parent)) {
+        parent.criteria[index] = replacement
+    } else if (parent instanceof NotCriterion || parent instanceof LinkGraphCriterion) {
+        parent.criterion = replacement
+    }
+    return root
+}
+
+/**
+ * Moves the criteria of a node to a new criterion of another type where the new type can hold them,
+ * so that e.g. changing an AND to an OR keeps its sub-criteria. Returns the new criterion.
+ */
+export function transferChildren(from: Criterion, to: Criterion): Criterion {
+    const children = getEditableChildren(from)
+    if (isGroupCriterion(to) && children.length > 0) {
+        to.criteria = [...children]
+    } else if ((to instanceof NotCriterion || to instanceof LinkGraphCriterion) && children.length === 1) {
+        to.criterion = children[0]!
+    }
+    return to
+}
+
+export function canMoveCriterion(root: Criterion, path: CriterionPath, offset: number): boolean {
+    const group = getParentGroup(root, path)
+    if (!group) return false
+    const target = path[path.length - 1]! + offset
+    return target >= 0 && target < group.criteria.length
+}
+
+// Moves a node within its AND/OR group by the offset
+export function moveCriterion(root: Criterion, path: CriterionPath, offset: number) {
+    if (!canMoveCriterion(root, path, offset)) throw new Error('The criterion cannot be moved there')
+    const group = getParentGroup(root, path)!
+    const index = path[path.length - 1]!
+    const [criterion] = group.criteria.splice(index, 1)
+    group.criteria.splice(index + offset, 0, criterion!)
+}
+
+// Inserts a criterion into an AND/OR group after the node
+export function insertCriterionAfter(root: Criterion, path: CriterionPath, criterion: Criterion) {
+    const group = getParentGroup(root, path)
+    if (!group) throw new Error('Criteria can only be inserted into AND and OR criteria')
+    group.criteria.splice(path[path.length - 1]! + 1, 0, criterion)
+}
+
+// Removes a node from its AND/OR group
+export function removeCriterionAt(root: Criterion, path: CriterionPath) {
+    const group = getParentGroup(root, path)
+    if (!group) throw new Error('Only sub-criteria of AND and OR criteria can be removed')
+    group.criteria.splice(path[path.length - 1]!, 1)
+}
+
+/**
+ * Replaces the node with a new AND, OR or NOT criterion containing it and returns the root.
+ */
+export function wrapCriterionAt(root: Criterion, path: CriterionPath, type: WrapperType): Criterion {
+    const criterion = getCriterionAt(root, path)
+    const wrapper = type === 'Not' ? new NotCriterion(criterion)
+        : type === 'And' ? new AndCriterion([criterion])
+        : new OrCriterion([criterion])
+    return replaceCriterionAt(root, path, wrapper)
+}
+
+// A node can be unwrapped if it has a single child, or several children that can be moved into an enclosing AND/OR group
+export function canUnwrapCriterion(root: Criterion, path: CriterionPath): boolean {
+    const children = getEditableChildren(getCriterionAt(root, path))
+    return children.length === 1 || (children.length > 1 && getParentGroup(root, path) !== null)
+}
+
+/**
+ * Replaces the node with its children and returns the root.
+ */
+export function unwrapCriterionAt(root: Criterion, path: CriterionPath): Criterion {
+    if (!canUnwrapCriterion(root, path)) throw new Error('The criterion cannot be unwrapped')
+    const children = getEditableChildren(getCriterionAt(root, path))
+    if (children.length === 1) return replaceCriterionAt(root, path, children[0]!)
+
+    const group = getParentGroup(root, path)!
+    group.criteria.splice(path[path.length - 1]!, 1, ...children)
+    return root
+}
+
+// Maximum number of states kept for undo
+const MAX_HISTORY_LENGTH = 100
+
+/**
+ * Undo and redo history of the states of a criterion during an edit session.
+ */
+export class CriterionHistory {
+    // Serialized states as JSON, so that identical states can be recognized
+    private states: string[]
+    private index = 0
+
+    constructor(initial: Criterion) {
+        this.states = [JSON.stringify(initial.serialize())]
+    }
+
+    /**
+     * Records the current state of the criterion unless it is unchanged. Discards the states that were undone.
+     */
+    record(criterion: Criterion) {
+        const state = JSON.stringify(criterion.serialize())
+        if (state === this.states[this.index]) return
+        this.states = [...this.states.slice(0, this.index + 1), state].slice(-MAX_HISTORY_LENGTH)
+        this.index = this.states.length - 1
+    }
+
+    canUndo(): boolean {
+        return this.index > 0
+    }
+
+    canRedo(): boolean {
+        return this.index < this.states.length - 1
+    }
+
+    // Returns the previous state, or null if there is none
+    undo(): SerializedCriterion | null {
+        if (!this.canUndo()) return null
+        return JSON.parse(this.states[--this.index]!) as SerializedCriterion
+    }
+
+    // Returns the state that was undone last, or null if there is none
+    redo(): SerializedCriterion | null {
+        if (!this.canRedo()) return null
+        return JSON.parse(this.states[++this.index]!) as SerializedCriterion
+    }
+}
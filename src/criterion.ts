@@ -1,10 +1,11 @@
-import { TFile, CachedMetadata } from 'obsidian'
+import { TFile, CachedMetadata, getAllTags } from 'obsidian'
 import picomatch from 'picomatch'
+import { parseDateSpan, parseDuration, addDuration, isBeforeSpan, isAfterSpan } from './date-parsing'
 
 // Serialization
 
 // Type derived from class names (e.g., 'Tag' from TagCriterion)
-export const CRITERION_TYPE_NAMES = ['Tag', 'Frontmatter', 'Title', 'Path', 'Content', 'And', 'Or', 'Not'] as const
+export const CRITERION_TYPE_NAMES = ['Tag', 'Frontmatter', 'Folder', 'Inherited', 'Title', 'Path', 'Content', 'Date', 'LinkGraph', 'Reference', 'And', 'Or', 'Not'] as const
 export type CriterionType = typeof CRITERION_TYPE_NAMES[number]
 
 export enum TextMatchMode {
@@ -24,6 +25,41 @@ export enum FrontmatterMatchMode {
     Equals = 'equals',
     Contains = 'contains',
     Regex = 'matches regex',
+    GreaterThan = 'greater than',
+    LessThan = 'less than',
+    IsTrue = 'is true',
+    IsFalse = 'is false',
+    IsEmpty = 'is empty',
+    ListContains = 'list contains',
+    ListHasAny = 'list has any of',
+    ListHasAll = 'list has all of',
+}
+
+// Frontmatter match modes that do not compare with a value
+export const VALUELESS_FRONTMATTER_MATCH_MODES: readonly FrontmatterMatchMode[] = [
+    FrontmatterMatchMode.Exists,
+    FrontmatterMatchMode.IsTrue,
+    FrontmatterMatchMode.IsFalse,
+    FrontmatterMatchMode.IsEmpty,
+]
+
+export enum DateSource {
+    Created = 'created',
+    Modified = 'modified',
+    Frontmatter = 'frontmatter',
+}
+
+export enum DateMatchMode {
+    Before = 'before',
+    After = 'after',
+    Between = 'between',
+    WithinLast = 'within last',
+}
+
+export enum LinkDirection {
+    Outgoing = 'outgoing links',
+    Backlinks = 'backlinks',
+    Both = 'outgoing links and backlinks',
 }
 
 export interface SerializedCriterion {
@@ -31,12 +67,21 @@ export interface SerializedCriterion {
     [key: string]: unknown
 }
 
+/**
+ * Named criterion definitions that Reference criteria resolve to during deserialization.
+ */
+export interface DeserializationContext {
+    definitions: Record<string, SerializedCriterion>
+    // Names of the definitions currently being resolved, for cycle detection
+    resolving?: string[]
+}
+
 const registry: Map<CriterionType, typeof Criterion> = new Map()
 
 // Type for criterion class constructors that can be registered
 interface CriterionClass {
     new(...args: unknown[]): Criterion
-    deserialize(data: SerializedCriterion): Criterion
+    deserialize(data: SerializedCriterion, context?: DeserializationContext): Criterion
 }
 
 // Decorator for registering criterion classes
@@ -55,6 +100,56 @@ function stringifyValue(value: unknown): string {
     return JSON.stringify(value)
 }
 
+/**
+ * Returns the frontmatter value for a key. Keys containing dots that are not
+ * present as-is are resolved as paths into nested objects and lists (e.g. `site.visibility`).
+ */
+export function getFrontmatterValue(frontmatter: Record<string, unknown> | undefined, key: string): unknown {
+    if (!frontmatter) return undefined
+    if (key in frontmatter) return frontmatter[key]
+
+    let value: unknown = frontmatter
+    for (const part of key.split('.')) {
+        if (value === null || typeof value !== 'object') return undefined
+        value = (value as Record<string, unknown>)[part]
+    }
+    return value
+}
+
+const TRUE_STRINGS = ['true', 'yes', 'on', 'y', '1']
+const FALSE_STRINGS = ['false', 'no', 'off', 'n', '0']
+
+// Interprets YAML 1.1-style booleans such as `yes` and `off`; returns undefined for other values
+function parseBooleanValue(value: unknown): boolean | undefined {
+    if (typeof value === 'boolean') return value
+    if (typeof value === 'number') return value !== 0
+    if (typeof value === 'string') {
+        const normalized = value.trim().toLowerCase()
+        if (TRUE_STRINGS.includes(normalized)) return true
+        if (FALSE_STRINGS.includes(normalized)) return false
+    }
+    return undefined
+}
+
+function parseNumberValue(value: unknown): number {
+    if (typeof value === 'number') return value
+    if (typeof value === 'string' && value.trim() !== '') return Number(value)
+    return NaN
+}
+
+function isEmptyValue(value: unknown): boolean {
+    if (value === undefined || value === null) return true
+    if (typeof value === 'string') return value.trim() === ''
+    if (Array.isArray(value)) return value.length === 0
+    if (typeof value === 'object') return Object.keys(value).length === 0
+    return false
+}
+
+// Splits a comma-separated list of values, e.g. "a, b, c"
+function splitListValue(value: string): string[] {
+    return value.split(',').map(v => v.trim().toLowerCase()).filter(v => v.length > 0)
+}
+
 function safeRegexTest(pattern: string, input: string, flags = 'i'): boolean {
     try {
         return new RegExp(pattern, flags).test(input)
@@ -69,7 +164,7 @@ const GLOB_OPTIONS = { dot: true, contains: true }
 /**
  * Information extracted from a single line of a glob pattern.
  */
-interface GlobLineInfo {
+export interface GlobLineInfo {
     negated: boolean
     glob: string
 }
@@ -78,7 +173,7 @@ interface GlobLineInfo {
  * Parses a single line of a .gitignore-style glob pattern.
  * Handles trimming, comments (#), and negation (!).
  */
-function parseGlobLine(line: string): GlobLineInfo {
+export function parseGlobLine(line: string): GlobLineInfo {
     const trimmed = line.trim()
     if (trimmed === '' || trimmed.startsWith('#')) {
         return { negated: false, glob: '' }
@@ -112,34 +207,101 @@ export function matchesGlobPatterns(multiLinePattern: string, input: string): bo
         const { negated, glob } = parseGlobLine(rawLine)
         if (glob.length === 0) continue
 
-        try {
-            const isMatch = picomatch(glob, GLOB_OPTIONS)
-            if (isMatch(input)) {
-                matched = !negated
-            }
-        } catch {
-            console.error(`Invalid glob pattern: ${glob}`)
+        if (matchesGlob(glob, input)) {
+            matched = !negated
         }
     }
     return matched
 }
 
+/**
+ * Test a value against a single glob (without negation). Invalid globs match nothing.
+ */
+export function matchesGlob(glob: string, input: string): boolean {
+    try {
+        return picomatch(glob, GLOB_OPTIONS)(input)
+    } catch {
+        console.error(`Invalid glob pattern: ${glob}`)
+        return false
+    }
+}
+
+/**
+ * Result of evaluating a criterion node, including the results of its sub-criteria.
+ * The result is undefined for nodes that were not evaluated due to short-circuiting.
+ */
+export interface EvaluationTrace {
+    criterion: Criterion
+    result: boolean | undefined
+    children: EvaluationTrace[]
+}
+
+/**
+ * Vault-wide information for criteria that depend on other notes.
+ * Passed to `Criterion.prepare` before files are evaluated.
+ */
+export interface CriterionContext {
+    // Markdown files that are candidates for publishing
+    files: TFile[]
+    // Source path -> destination path -> link count, as in `MetadataCache.resolvedLinks`
+    resolvedLinks: Record<string, Record<string, number>>
+    getMetadata(file: TFile): CachedMetadata | null
+    evaluate(criterion: Criterion, file: TFile): Promise<boolean>
+}
+
+/**
+ * Thrown by criteria evaluated without the note content when they need it.
+ */
+export class ContentNotLoadedError extends Error {
+    constructor() {
+        super('Note content is needed for evaluation but has not been loaded')
+        this.name = 'ContentNotLoadedError'
+    }
+}
+
+function createSkippedTrace(criterion: Criterion): EvaluationTrace {
+    return { criterion, result: undefined, children: criterion.getChildren().map(createSkippedTrace) }
+}
+
 export abstract class Criterion {
-    static deserialize(data: SerializedCriterion): Criterion {
+    static deserialize(data: SerializedCriterion, context?: DeserializationContext): Criterion {
         const criterionClass = registry.get(data.type)
         if (!criterionClass) {
             throw new Error(`Unknown criterion type: ${data.type}`)
         }
-        return criterionClass.deserialize(data)
+        return criterionClass.deserialize(data, context)
     }
 
     abstract serialize(): SerializedCriterion
-    abstract evaluate(file: TFile, content: string, metadata: CachedMetadata): boolean
+    // The content is null if the note has not been read yet. Criteria that need it throw ContentNotLoadedError,
+    // after which the caller reads the note and evaluates again.
+    abstract evaluate(file: TFile, content: string | null, metadata: CachedMetadata): boolean
     abstract getSummary(): string
 
     getType(): CriterionType {
         return this.constructor.name.replace('Criterion', '') as CriterionType
     }
+
+    getChildren(): Criterion[] {
+        return []
+    }
+
+    // Whether evaluation may need the content of the note, which is more expensive to obtain than metadata
+    needsContent(): boolean {
+        return this.getChildren().some(c => c.needsContent())
+    }
+
+    // Precomputes vault-wide state needed by evaluate(). Must be called before evaluating files.
+    async prepare(context: CriterionContext): Promise<void> {
+        for (const child of this.getChildren()) {
+            await child.prepare(context)
+        }
+    }
+
+    // Evaluates the criterion and records the result of each node
+    explain(file: TFile, content: string, metadata: CachedMetadata): EvaluationTrace {
+        return { criterion: this, result: this.evaluate(file, content, metadata), children: [] }
+    }
 }
 
 @RegisterCriterion
@@ -152,15 +314,43 @@ export class FrontmatterCriterion extends Criterion {
         super()
     }
 
-    evaluate(file: TFile, content: string, metadata: CachedMetadata): boolean {
-        const frontmatterValue = metadata?.frontmatter?.[this.key] as unknown
+    evaluate(file: TFile, content: string | null, metadata: CachedMetadata): boolean {
+        const frontmatterValue = getFrontmatterValue(metadata?.frontmatter, this.key)
 
-        if (this.matchMode === FrontmatterMatchMode.Exists) {
-            return frontmatterValue !== undefined
+        switch (this.matchMode) {
+            case FrontmatterMatchMode.Exists:
+                return frontmatterValue !== undefined
+            case FrontmatterMatchMode.IsEmpty:
+                return isEmptyValue(frontmatterValue)
+            case FrontmatterMatchMode.IsTrue:
+                return parseBooleanValue(frontmatterValue) === true
+            case FrontmatterMatchMode.IsFalse:
+                return parseBooleanValue(frontmatterValue) === false
         }
 
         if (frontmatterValue === undefined) return false
 
+        switch (this.matchMode) {
+            case FrontmatterMatchMode.GreaterThan:
+                return parseNumberValue(frontmatterValue) > parseNumberValue(this.value)
+            case FrontmatterMatchMode.LessThan:
+                return parseNumberValue(frontmatterValue) < parseNumberValue(this.value)
+            case FrontmatterMatchMode.ListContains:
+            case FrontmatterMatchMode.ListHasAny:
+            case FrontmatterMatchMode.ListHasAll: {
+                // A scalar value is treated as a list with one element
+                const elements = (Array.isArray(frontmatterValue) ? frontmatterValue as unknown[] : [frontmatterValue])
+                    .map(element => stringifyValue(element).toLowerCase())
+                if (this.matchMode === FrontmatterMatchMode.ListContains) {
+                    return elements.includes(this.value.trim().toLowerCase())
+                }
+                const expected = splitListValue(this.value)
+                return this.matchMode === FrontmatterMatchMode.ListHasAny
+                    ? expected.some(v => elements.includes(v))
+                    : expected.every(v => elements.includes(v))
+            }
+        }
+
         const stringVal = stringifyValue(frontmatterValue)
         switch (this.matchMode) {
             case FrontmatterMatchMode.Equals:
@@ -175,8 +365,8 @@ export class FrontmatterCriterion extends Criterion {
     }
 
     getSummary(): string {
-        if (this.matchMode === FrontmatterMatchMode.Exists) {
-            return `Frontmatter: ${this.key} exists`
+        if (VALUELESS_FRONTMATTER_MATCH_MODES.includes(this.matchMode)) {
+            return `Frontmatter: ${this.key} ${this.matchMode}`
         }
         return `Frontmatter: ${this.key} ${this.matchMode} ${this.value}`
     }
@@ -200,10 +390,15 @@ export class ContentCriterion extends Criterion {
         super()
     }
 
-    evaluate(_file: TFile, content: string, _metadata: CachedMetadata): boolean {
+    evaluate(_file: TFile, content: string | null, _metadata: CachedMetadata): boolean {
+        if (content === null) throw new ContentNotLoadedError()
         return safeRegexTest(this.regex, content)
     }
 
+    needsContent(): boolean {
+        return true
+    }
+
     getSummary(): string {
         return `Content matches: ${this.regex}`
     }
@@ -227,7 +422,7 @@ export abstract class PatternCriterion extends Criterion {
     // Abstract: must provide the value to match against
     protected abstract getTargetValue(file: TFile): string
 
-    evaluate(file: TFile, _content: string, _metadata: CachedMetadata): boolean {
+    evaluate(file: TFile, _content: string | null, _metadata: CachedMetadata): boolean {
         const value = this.getTargetValue(file)
         switch (this.matchMode) {
             case TextMatchMode.Regex:
@@ -280,23 +475,238 @@ export class PathCriterion extends PatternCriterion {
     }
 }
 
+// Normalizes a vault folder path; the vault root is the empty string
+export function normalizeFolderPath(folder: string): string {
+    return folder.trim().replace(/\\/g, '/').replace(/^\/+|\/+$/g, '')
+}
+
+function getParentFolder(path: string): string {
+    const index = path.lastIndexOf('/')
+    return index === -1 ? '' : path.slice(0, index)
+}
+
+@RegisterCriterion
+export class FolderCriterion extends Criterion {
+    constructor(public folder: string, public recursive: boolean = true) {
+        super()
+    }
+
+    evaluate(file: TFile, _content: string | null, _metadata: CachedMetadata): boolean {
+        const folder = normalizeFolderPath(this.folder)
+        const parent = getParentFolder(file.path.replace(/\\/g, '/'))
+        if (parent === folder) return true
+        return this.recursive && (folder === '' || parent.startsWith(folder + '/'))
+    }
+
+    getSummary(): string {
+        return `Folder${this.recursive ? ' (recursively)' : ''}: ${normalizeFolderPath(this.folder) || '/'}`
+    }
+
+    serialize(): SerializedCriterion {
+        return { type: this.getType(), folder: this.folder, recursive: this.recursive }
+    }
+
+    static deserialize(data: SerializedCriterion): FolderCriterion {
+        return new FolderCriterion(data.folder as string, data.recursive as boolean)
+    }
+}
+
+export const DEFAULT_FOLDER_MARKER_FILE = '_folder.md'
+
+/**
+ * Matches notes whose boolean property (e.g. `publish`) is true, where the value is taken from the note itself
+ * or inherited from the nearest enclosing folder that sets it. A folder sets the value in the frontmatter of its
+ * marker file (e.g. `Blog/_folder.md`) or, if there is none, of its folder note (e.g. `Blog/Blog.md`).
+ */
+@RegisterCriterion
+export class InheritedCriterion extends Criterion {
+    // Folder path -> value set by the folder, computed in prepare()
+    private folderValues: Map<string, boolean> | null = null
+
+    constructor(public key: string = 'publish', public markerFile: string = DEFAULT_FOLDER_MARKER_FILE) {
+        super()
+    }
+
+    async prepare(context: CriterionContext): Promise<void> {
+        await super.prepare(context)
+
+        const markerValues = new Map<string, boolean>()
+        const folderNoteValues = new Map<string, boolean>()
+        for (const file of context.files) {
+            const value = parseBooleanValue(getFrontmatterValue(context.getMetadata(file)?.frontmatter, this.key))
+            if (value === undefined) continue
+            const folder = getParentFolder(file.path)
+            if (file.name === this.markerFile) {
+                markerValues.set(folder, value)
+            } else if (folder !== '' && file.basename === folder.slice(folder.lastIndexOf('/') + 1)) {
+                folderNoteValues.set(folder, value)
+            }
+        }
+        this.folderValues = new Map([...folderNoteValues, ...markerValues])
+    }
+
+    evaluate(file: TFile, _content: string | null, metadata: CachedMetadata): boolean {
+        const ownValue = parseBooleanValue(getFrontmatterValue(metadata?.frontmatter, this.key))
+        if (ownValue !== undefined) return ownValue
+        if (!this.folderValues) return false
+
+        // Walk up from the note's folder to the vault root; the nearest folder that sets the value wins
+        let folder = getParentFolder(file.path)
+        for (; ;) {
+            const value = this.folderValues.get(folder)
+            if (value !== undefined) return value
+            if (folder === '') return false
+            folder = getParentFolder(folder)
+        }
+    }
+
+    getSummary(): string {
+        return `Inherited: ${this.key} is true (from the note, ${this.markerFile} or folder notes)`
+    }
+
+    serialize(): SerializedCriterion {
+        return { type: this.getType(), key: this.key, markerFile: this.markerFile }
+    }
+
+    static deserialize(data: SerializedCriterion): InheritedCriterion {
+        return new InheritedCriterion(data.key as string, data.markerFile as string)
+    }
+}
+
+@RegisterCriterion
+export class DateCriterion extends Criterion {
+    constructor(
+        public source: DateSource,
+        public key: string,
+        public matchMode: DateMatchMode,
+        public value: string,
+        public endValue: string = ''
+    ) {
+        super()
+    }
+
+    private getDate(file: TFile, metadata: CachedMetadata): number | null {
+        switch (this.source) {
+            case DateSource.Created:
+                return file.stat.ctime
+            case DateSource.Modified:
+                return file.stat.mtime
+            case DateSource.Frontmatter:
+                return parseDateSpan(getFrontmatterValue(metadata?.frontmatter, this.key))?.start ?? null
+        }
+    }
+
+    evaluate(file: TFile, _content: string | null, metadata: CachedMetadata): boolean {
+        const date = this.getDate(file, metadata)
+        if (date === null) return false
+
+        if (this.matchMode === DateMatchMode.WithinLast) {
+            const duration = parseDuration(this.value)
+            if (!duration) {
+                console.error(`Invalid duration: ${this.value}`)
+                return false
+            }
+            return date >= addDuration(Date.now(), duration, -1)
+        }
+
+        const span = parseDateSpan(this.value)
+        if (!span) {
+            console.error(`Invalid date: ${this.value}`)
+            return false
+        }
+        switch (this.matchMode) {
+            case DateMatchMode.Before:
+                return isBeforeSpan(date, span)
+            case DateMatchMode.After:
+                return isAfterSpan(date, span)
+            case DateMatchMode.Between: {
+                const endSpan = parseDateSpan(this.endValue)
+                if (!endSpan) {
+                    console.error(`Invalid date: ${this.endValue}`)
+                    return false
+                }
+                return !isBeforeSpan(date, span) && !isAfterSpan(date, endSpan)
+            }
+            default:
+                return false
+        }
+    }
+
+    private getSourceLabel(): string {
+        return this.source === DateSource.Frontmatter ? `frontmatter ${this.key}` : this.source
+    }
+
+    getSummary(): string {
+        const range = this.matchMode === DateMatchMode.Between ? `${this.value} and ${this.endValue}` : this.value
+        return `Date: ${this.getSourceLabel()} ${this.matchMode} ${range}`
+    }
+
+    serialize(): SerializedCriterion {
+        return { type: this.getType(), source: this.source, key: this.key, matchMode: this.matchMode, value: this.value, endValue: this.endValue }
+    }
+
+    static deserialize(data: SerializedCriterion): DateCriterion {
+        return new DateCriterion(
+            data.source as DateSource,
+            data.key as string,
+            data.matchMode as DateMatchMode,
+            data.value as string,
+            data.endValue as string
+        )
+    }
+}
+
 function indentText(text: string, spaces: number): string {
     return text.replace(/^/gm, ' '.repeat(spaces))
 }
 
+// Returns the indices of the criteria in evaluation order: criteria not needing the content first
+function getEvaluationOrder(criteria: Criterion[]): number[] {
+    const indices = criteria.map((_, i) => i)
+    return [...indices.filter(i => !criteria[i]!.needsContent()), ...indices.filter(i => criteria[i]!.needsContent())]
+}
+
+// Evaluates an AND (stopping at the first false) or an OR (stopping at the first true)
+function evaluateJunction(criteria: Criterion[], stopValue: boolean, file: TFile, content: string | null, metadata: CachedMetadata): boolean {
+    for (const i of getEvaluationOrder(criteria)) {
+        if (criteria[i]!.evaluate(file, content, metadata) === stopValue) {
+            return stopValue
+        }
+    }
+    return !stopValue
+}
+
+// Traces a junction in evaluation order, listing the children in their original order
+function explainJunction(criterion: AndCriterion | OrCriterion, stopValue: boolean, file: TFile, content: string, metadata: CachedMetadata): EvaluationTrace {
+    const children: EvaluationTrace[] = criterion.criteria.map(createSkippedTrace)
+    let result = !stopValue
+    for (const i of getEvaluationOrder(criterion.criteria)) {
+        const childTrace = criterion.criteria[i]!.explain(file, content, metadata)
+        children[i] = childTrace
+        if (childTrace.result === stopValue) {
+            result = stopValue
+            break
+        }
+    }
+    return { criterion, result, children }
+}
+
 @RegisterCriterion
 export class AndCriterion extends Criterion {
     constructor(public criteria: Criterion[]) {
         super()
     }
 
-    evaluate(file: TFile, content: string, metadata: CachedMetadata): boolean {
-        for (const criterion of this.criteria) {
-            if (!criterion.evaluate(file, content, metadata)) {
-                return false
-            }
-        }
-        return true
+    evaluate(file: TFile, content: string | null, metadata: CachedMetadata): boolean {
+        return evaluateJunction(this.criteria, false, file, content, metadata)
+    }
+
+    getChildren(): Criterion[] {
+        return this.criteria
+    }
+
+    explain(file: TFile, content: string, metadata: CachedMetadata): EvaluationTrace {
+        return explainJunction(this, false, file, content, metadata)
     }
 
     getSummary(): string {
@@ -308,8 +718,8 @@ export class AndCriterion extends Criterion {
         return { type: this.getType(), criteria: this.criteria.map(c => c.serialize()) }
     }
 
-    static deserialize(data: SerializedCriterion): AndCriterion {
-        return new AndCriterion((data.criteria as SerializedCriterion[]).map(c => Criterion.deserialize(c)))
+    static deserialize(data: SerializedCriterion, context?: DeserializationContext): AndCriterion {
+        return new AndCriterion((data.criteria as SerializedCriterion[]).map(c => Criterion.deserialize(c, context)))
     }
 }
 
@@ -319,13 +729,16 @@ export class OrCriterion extends Criterion {
         super()
     }
 
-    evaluate(file: TFile, content: string, metadata: CachedMetadata): boolean {
-        for (const criterion of this.criteria) {
-            if (criterion.evaluate(file, content, metadata)) {
-                return true
-            }
-        }
-        return false
+    evaluate(file: TFile, content: string | null, metadata: CachedMetadata): boolean {
+        return evaluateJunction(this.criteria, true, file, content, metadata)
+    }
+
+    getChildren(): Criterion[] {
+        return this.criteria
+    }
+
+    explain(file: TFile, content: string, metadata: CachedMetadata): EvaluationTrace {
+        return explainJunction(this, true, file, content, metadata)
     }
 
     getSummary(): string {
@@ -337,8 +750,8 @@ export class OrCriterion extends Criterion {
         return { type: this.getType(), criteria: this.criteria.map(c => c.serialize()) }
     }
 
-    static deserialize(data: SerializedCriterion): OrCriterion {
-        return new OrCriterion((data.criteria as SerializedCriterion[]).map(c => Criterion.deserialize(c)))
+    static deserialize(data: SerializedCriterion, context?: DeserializationContext): OrCriterion {
+        return new OrCriterion((data.criteria as SerializedCriterion[]).map(c => Criterion.deserialize(c, context)))
     }
 }
 
@@ -348,10 +761,19 @@ export class NotCriterion extends Criterion {
         super()
     }
 
-    evaluate(file: TFile, content: string, metadata: CachedMetadata): boolean {
+    evaluate(file: TFile, content: string | null, metadata: CachedMetadata): boolean {
         return !this.criterion.evaluate(file, content, metadata)
     }
 
+    getChildren(): Criterion[] {
+        return [this.criterion]
+    }
+
+    explain(file: TFile, content: string, metadata: CachedMetadata): EvaluationTrace {
+        const childTrace = this.criterion.explain(file, content, metadata)
+        return { criterion: this, result: !childTrace.result, children: [childTrace] }
+    }
+
     getSummary(): string {
         return `NOT ${this.criterion.getSummary()}`
     }
@@ -360,41 +782,231 @@ export class NotCriterion extends Criterion {
         return { type: this.getType(), criterion: this.criterion.serialize() }
     }
 
-    static deserialize(data: SerializedCriterion): NotCriterion {
-        return new NotCriterion(Criterion.deserialize(data.criterion as SerializedCriterion))
+    static deserialize(data: SerializedCriterion, context?: DeserializationContext): NotCriterion {
+        return new NotCriterion(Criterion.deserialize(data.criterion as SerializedCriterion, context))
     }
 }
 
-function extractTagsFromContent(content: string): string[] {
-    const lines = content.split('\n')
-    const tags: Set<string> = new Set()
-    let inCodeBlock = false
-
-    for (const line of lines) {
-        if (line.trim().startsWith('```')) {
-            inCodeBlock = !inCodeBlock
-            continue
+// Returns adjacency lists of notes over the links in the given direction
+function getLinkNeighbors(resolvedLinks: Record<string, Record<string, number>>, direction: LinkDirection): Map<string, string[]> {
+    const neighbors = new Map<string, string[]>()
+    const addEdge = (from: string, to: string) => {
+        const list = neighbors.get(from)
+        if (list) list.push(to)
+        else neighbors.set(from, [to])
+    }
+    for (const [source, destinations] of Object.entries(resolvedLinks)) {
+        for (const destination of Object.keys(destinations)) {
+            if (direction !== LinkDirection.Backlinks) addEdge(source, destination)
+            if (direction !== LinkDirection.Outgoing) addEdge(destination, source)
         }
+    }
+    return neighbors
+}
+
+@RegisterCriterion
+export class LinkGraphCriterion extends Criterion {
+    // Paths of notes reachable from the root notes, computed in prepare()
+    private reachablePaths: Set<string> | null = null
+
+    constructor(
+        public criterion: Criterion,
+        public maxDepth: number = 1,
+        public direction: LinkDirection = LinkDirection.Outgoing
+    ) {
+        super()
+    }
+
+    getChildren(): Criterion[] {
+        return [this.criterion]
+    }
+
+    // Once prepared, the result depends only on the path
+    needsContent(): boolean {
+        return this.reachablePaths === null && this.criterion.needsContent()
+    }
+
+    async prepare(context: CriterionContext): Promise<void> {
+        await super.prepare(context)
+
+        const notePaths = new Set(context.files.map(f => f.path))
+        const neighbors = getLinkNeighbors(context.resolvedLinks, this.direction)
 
-        if (!inCodeBlock) {
-            if (line.trim().startsWith('%%')) {
-                continue
+        // Breadth-first search from the root notes; the visited set handles cycles
+        const visited = new Set<string>()
+        for (const file of context.files) {
+            if (await context.evaluate(this.criterion, file)) visited.add(file.path)
+        }
+        let frontier = [...visited]
+        for (let depth = 0; depth < this.maxDepth && frontier.length > 0; depth++) {
+            const nextFrontier: string[] = []
+            for (const notePath of frontier) {
+                for (const neighbor of neighbors.get(notePath) ?? []) {
+                    if (notePaths.has(neighbor) && !visited.has(neighbor)) {
+                        visited.add(neighbor)
+                        nextFrontier.push(neighbor)
+                    }
+                }
             }
-            const contentTags = line.match(/#([\w-]+)/g)?.map(tag => tag.substring(1)) || []
-            contentTags.forEach(tag => tags.add(tag))
+            frontier = nextFrontier
+        }
+        this.reachablePaths = visited
+    }
+
+    evaluate(file: TFile, content: string | null, metadata: CachedMetadata): boolean {
+        if (!this.reachablePaths) {
+            // Not prepared: only the root notes match
+            return this.criterion.evaluate(file, content, metadata)
+        }
+        return this.reachablePaths.has(file.path)
+    }
+
+    explain(file: TFile, content: string, metadata: CachedMetadata): EvaluationTrace {
+        const childTrace = this.criterion.explain(file, content, metadata)
+        return { criterion: this, result: this.evaluate(file, content, metadata), children: [childTrace] }
+    }
+
+    getSummary(): string {
+        return `Linked within ${this.maxDepth} hops via ${this.direction} from:\n${indentText(this.criterion.getSummary(), 2)}`
+    }
+
+    serialize(): SerializedCriterion {
+        return { type: this.getType(), criterion: this.criterion.serialize(), maxDepth: this.maxDepth, direction: this.direction }
+    }
+
+    static deserialize(data: SerializedCriterion, context?: DeserializationContext): LinkGraphCriterion {
+        return new LinkGraphCriterion(
+            Criterion.deserialize(data.criterion as SerializedCriterion, context),
+            data.maxDepth as number,
+            data.direction as LinkDirection
+        )
+    }
+}
+
+/**
+ * Thrown when named criterion definitions reference each other in a cycle.
+ */
+export class CriterionReferenceCycleError extends Error {
+    constructor(public readonly cycle: string[]) {
+        super(`Cyclic criterion reference: ${cycle.join(' -> ')}`)
+        this.name = 'CriterionReferenceCycleError'
+    }
+}
+
+@RegisterCriterion
+export class ReferenceCriterion extends Criterion {
+    // The criterion that the name resolves to, or null if it has not been resolved
+    constructor(public name: string, public target: Criterion | null = null) {
+        super()
+    }
+
+    getChildren(): Criterion[] {
+        return this.target ? [this.target] : []
+    }
+
+    evaluate(file: TFile, content: string | null, metadata: CachedMetadata): boolean {
+        if (!this.target) {
+            console.error(`Unresolved criterion reference: ${this.name}`)
+            return false
+        }
+        return this.target.evaluate(file, content, metadata)
+    }
+
+    explain(file: TFile, content: string, metadata: CachedMetadata): EvaluationTrace {
+        if (!this.target) return super.explain(file, content, metadata)
+        const childTrace = this.target.explain(file, content, metadata)
+        return { criterion: this, result: childTrace.result, children: [childTrace] }
+    }
+
+    getSummary(): string {
+        return `Reference: ${this.name}`
+    }
+
+    serialize(): SerializedCriterion {
+        return { type: this.getType(), name: this.name }
+    }
+
+    static deserialize(data: SerializedCriterion, context?: DeserializationContext): ReferenceCriterion {
+        const name = data.name as string
+        const definition = context?.definitions[name]
+        if (!context || !definition) {
+            return new ReferenceCriterion(name)
+        }
+
+        const resolving = context.resolving ?? []
+        if (resolving.includes(name)) {
+            throw new CriterionReferenceCycleError([...resolving.slice(resolving.indexOf(name)), name])
+        }
+        const target = Criterion.deserialize(definition, { ...context, resolving: [...resolving, name] })
+        return new ReferenceCriterion(name, target)
+    }
+}
+
+/**
+ * Returns the names of the definitions referenced in serialized criterion data.
+ */
+export function getReferencedDefinitionNames(data: SerializedCriterion): Set<string> {
+    const names = new Set<string>()
+    const visit = (value: unknown) => {
+        if (Array.isArray(value)) {
+            value.forEach(visit)
+        } else if (value !== null && typeof value === 'object') {
+            const record = value as Record<string, unknown>
+            if (record.type === 'Reference') names.add(record.name as string)
+            Object.values(record).forEach(visit)
+        }
+    }
+    visit(data)
+    return names
+}
+
+/**
+ * Returns the names of the marker files from which Inherited criteria in the tree read folder values.
+ */
+export function getMarkerFileNames(criterion: Criterion): Set<string> {
+    const names = new Set<string>()
+    const visit = (node: Criterion) => {
+        if (node instanceof InheritedCriterion) names.add(node.markerFile)
+        node.getChildren().forEach(visit)
+    }
+    visit(criterion)
+    return names
+}
+
+/**
+ * Returns a copy of serialized criterion data in which references to a definition are renamed.
+ */
+export function renameCriterionReferences(data: SerializedCriterion, oldName: string, newName: string): SerializedCriterion {
+    const rename = (value: unknown): unknown => {
+        if (Array.isArray(value)) return value.map(rename)
+        if (value === null || typeof value !== 'object') return value
+
+        const renamed: Record<string, unknown> = {}
+        for (const [key, child] of Object.entries(value)) {
+            renamed[key] = rename(child)
         }
+        if (renamed.type === 'Reference' && renamed.name === oldName) {
+            renamed.name = newName
+        }
+        return renamed
     }
+    return rename(data) as SerializedCriterion
+}
 
-    return Array.from(tags)
+// Normalizes a tag as shown in Obsidian's tag pane, without the leading # and lowercased
+function normalizeTag(tag: string): string {
+    return tag.trim().replace(/^#/, '').toLowerCase()
 }
 
-export function getAllTagsFromFile(file: TFile, content: string, metadata: CachedMetadata): string[] {
-    const frontmatterTags = metadata?.frontmatter?.tags as unknown
-    const tagsFromFrontmatter: string[] = Array.isArray(frontmatterTags)
-        ? (frontmatterTags as unknown[]).map(stringifyValue)
-        : (frontmatterTags ? [stringifyValue(frontmatterTags)] : [])
-    const tagsFromContent = extractTagsFromContent(content)
-    return [...new Set([...tagsFromFrontmatter, ...tagsFromContent])]
+/**
+ * Returns the normalized tags that Obsidian's getAllTags reports for a note: its frontmatter tags and the inline
+ * tags in the metadata cache. Which text counts as a tag is left to Obsidian's parser.
+ */
+export function getAllTagsFromFile(metadata: CachedMetadata): string[] {
+    const tags = (metadata ? getAllTags(metadata) ?? [] : [])
+        .map(normalizeTag)
+        .filter(tag => tag.length > 0)
+    return [...new Set(tags)]
 }
 
 @RegisterCriterion
@@ -403,17 +1015,16 @@ export class TagCriterion extends Criterion {
         super()
     }
 
-    evaluate(file: TFile, content: string, metadata: CachedMetadata): boolean {
-        const tags = getAllTagsFromFile(file, content, metadata)
-        return tags.some(tag => {
-            const normalizedTag = tag.toLowerCase()
+    evaluate(_file: TFile, _content: string | null, metadata: CachedMetadata): boolean {
+        const expectedTag = normalizeTag(this.tag)
+        return getAllTagsFromFile(metadata).some(tag => {
             switch (this.matchMode) {
                 case TagMatchMode.Equals:
-                    return normalizedTag === this.tag
+                    return tag === expectedTag
                 case TagMatchMode.StartsWith:
-                    return normalizedTag === this.tag || normalizedTag.startsWith(this.tag + '/')
+                    return tag === expectedTag || tag.startsWith(expectedTag + '/')
                 case TagMatchMode.Includes:
-                    return normalizedTag.split('/').includes(this.tag)
+                    return tag.split('/').includes(expectedTag)
             }
         })
     }
@@ -0,0 +1,154 @@
+/**
+ * Tolerant parsing of dates and durations for date criteria.
+ *
+ * Dates are parsed into spans [start, end): `2024-05-01` covers the whole day, `2024-05` the whole month,
+ * while a value with a time of day (or `now`) is an instant with start equal to end.
+ */
+
+export interface DateSpan {
+    start: number
+    end: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const DURATION_UNITS: Record<string, (date: Date, amount: number) => void> = {
+    h: (date, amount) => date.setHours(date.getHours() + amount),
+    d: (date, amount) => date.setDate(date.getDate() + amount),
+    w: (date, amount) => date.setDate(date.getDate() + 7 * amount),
+    month: (date, amount) => date.setMonth(date.getMonth() + amount),
+    y: (date, amount) => date.setFullYear(date.getFullYear() + amount),
+}
+
+const UNIT_ALIASES: Record<string, string> = {
+    h: 'h', hour: 'h', hours: 'h',
+    d: 'd', day: 'd', days: 'd',
+    w: 'w', week: 'w', weeks: 'w',
+    month: 'month', months: 'month',
+    y: 'y', year: 'y', years: 'y',
+}
+
+/**
+ * A calendar-aware duration such as `30d`, `2 weeks` or `6 months`.
+ */
+export interface Duration {
+    amount: number
+    unit: string
+}
+
+/**
+ * Parses a duration such as `30d`, `2 weeks`, `6 months` or `1y`. Returns null if invalid.
+ */
+export function parseDuration(value: string): Duration | null {
+    const match = value.trim().toLowerCase().match(/^(\d+)\s*([a-z]+)$/)
+    const unit = match ? UNIT_ALIASES[match[2]!] : undefined
+    if (!match || !unit) return null
+    return { amount: parseInt(match[1]!, 10), unit }
+}
+
+/**
+ * Returns the timestamp obtained by adding `sign * duration` to `time`.
+ */
+export function addDuration(time: number, duration: Duration, sign: 1 | -1): number {
+    const date = new Date(time)
+    DURATION_UNITS[duration.unit]!(date, sign * duration.amount)
+    return date.getTime()
+}
+
+function startOfDay(time: number): number {
+    const date = new Date(time)
+    date.setHours(0, 0, 0, 0)
+    return date.getTime()
+}
+
+function daySpan(start: number): DateSpan {
+    return { start, end: new Date(start).setDate(new Date(start).getDate() + 1) }
+}
+
+function localDateSpan(year: number, month?: number, day?: number): DateSpan | null {
+    if (month !== undefined && (month < 1 || month > 12)) return null
+    if (day !== undefined && (day < 1 || day > 31)) return null
+    const start = new Date(year, (month ?? 1) - 1, day ?? 1)
+    // Reject overflowing dates such as 2024-02-31
+    if (day !== undefined && start.getDate() !== day) return null
+    const end = new Date(start)
+    if (day !== undefined) end.setDate(end.getDate() + 1)
+    else if (month !== undefined) end.setMonth(end.getMonth() + 1)
+    else end.setFullYear(end.getFullYear() + 1)
+    return { start: start.getTime(), end: end.getTime() }
+}
+
+function instant(time: number): DateSpan {
+    return { start: time, end: time }
+}
+
+/**
+ * Parses a date value. Supported forms:
+ * - `YYYY`, `YYYY-MM`, `YYYY-MM-DD` (also with `/` or `.` separators), `DD.MM.YYYY`
+ * - ISO 8601 date-times such as `2024-05-01T12:00` or `2024-05-01 12:00:00Z`
+ * - `now`, `today`, `yesterday`, `tomorrow`
+ * - relative offsets such as `-30d`, `+2 weeks` or `3 months ago`
+ * - Unix timestamps in milliseconds (or seconds for values below 10^11), except 4-digit numbers, which are years
+ * - other formats understood by `Date.parse`
+ * Returns null if the value cannot be parsed.
+ */
+export function parseDateSpan(value: unknown, now: number = Date.now()): DateSpan | null {
+    if (value instanceof Date) {
+        return isNaN(value.getTime()) ? null : instant(value.getTime())
+    }
+    if (typeof value === 'number') {
+        // YAML reads `date: 2024` as a number, which means the year as in its string form
+        if (Number.isInteger(value) && value >= 1000 && value <= 9999) return localDateSpan(value)
+        return instant(value < 1e11 ? value * 1000 : value)
+    }
+    if (typeof value !== 'string') return null
+
+    const text = value.trim().toLowerCase()
+    if (text === '') return null
+
+    switch (text) {
+        case 'now': return instant(now)
+        case 'today': return daySpan(startOfDay(now))
+        case 'yesterday': return daySpan(startOfDay(now - DAY_MS))
+        case 'tomorrow': return daySpan(startOfDay(now + DAY_MS))
+    }
+
+    let match = text.match(/^([+-])\s*(\d+\s*[a-z]+)$/)
+    if (match) {
+        const duration = parseDuration(match[2]!)
+        return duration ? instant(addDuration(now, duration, match[1] === '-' ? -1 : 1)) : null
+    }
+    match = text.match(/^(\d+\s*[a-z]+)\s+ago$/)
+    if (match) {
+        const duration = parseDuration(match[1]!)
+        return duration ? instant(addDuration(now, duration, -1)) : null
+    }
+
+    match = text.match(/^(\d{4})(?:[-/.](\d{1,2})(?:[-/.](\d{1,2}))?)?$/)
+    if (match) {
+        const [, year, month, day] = match
+        return localDateSpan(parseInt(year!, 10), month ? parseInt(month, 10) : undefined, day ? parseInt(day, 10) : undefined)
+    }
+    match = text.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/)
+    if (match) {
+        const [, day, month, year] = match
+        return localDateSpan(parseInt(year!, 10), parseInt(month!, 10), parseInt(day!, 10))
+    }
+    if (/^\d+$/.test(text)) {
+        return parseDateSpan(parseInt(text, 10), now)
+    }
+
+    // Date-times without a time zone are interpreted in local time
+    const time = Date.parse(value.trim().replace(/^(\d{4}-\d{2}-\d{2}) (\d)/, '$1T$2'))
+    return isNaN(time) ? null : instant(time)
+}
+
+/** Returns true if the time is before the start of the span. */
+export function isBeforeSpan(time: number, span: DateSpan): boolean {
+    return time < span.start
+}
+
+/** Returns true if the time is after the end of the span. */
+export function isAfterSpan(time: number, span: DateSpan): boolean {
+    return span.end > span.start ? time >= span.end : time > span.end
+}
@@ -0,0 +1,148 @@
+/**
+ * Line-based diff of the repository copy of a file and the content that publishing writes,
+ * shown in the publishing preview.
+ */
+
+export type DiffLineType = 'unchanged' | 'added' | 'removed'
+
+export interface DiffLine {
+    type: DiffLineType
+    text: string
+    // Line numbers starting at 1; unset for lines that only exist on the other side
+    oldLine?: number
+    newLine?: number
+}
+
+export interface DiffHunk {
+    oldStart: number
+    oldLines: number
+    newStart: number
+    newLines: number
+    lines: DiffLine[]
+}
+
+// Above this number of compared line pairs, changed regions are shown as removed and added as a whole
+const MAX_DIFF_CELLS = 4_000_000
+
+function splitLines(text: string): string[] {
+    if (text === '') return []
+    const lines = text.split(/\r?\n/)
+    // A trailing newline does not start another line
+    if (lines[lines.length - 1] === '') lines.pop()
+    return lines
+}
+
+// Longest common subsequence of the lines, as pairs of indices
+function getCommonLines(oldLines: string[], newLines: string[]): [number, number][] {
+    const n = oldLines.length
+    const m = newLines.length
+    if (n * m > MAX_DIFF_CELLS) return []
+
+    // lengths[i * (m + 1) + j] is the length of the LCS of oldLines[i..] and newLines[j..]
+    const lengths = new Uint32Array((n + 1) * (m + 1))
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lengths[i * (m + 1) + j] = oldLines[i] === newLines[j]
+                ? lengths[(i + 1) * (m + 1) + j + 1]! + 1
+                : Math.max(lengths[(i + 1) * (m + 1) + j]!, lengths[i * (m + 1) + j + 1]!)
+        }
+    }
+
+    const pairs: [number, number][] = []
+    let i = 0
+    let j = 0
+    while (i < n && j < m) {
+        if (oldLines[i] === newLines[j]) {
+            pairs.push([i++, j++])
+        } else if (lengths[(i + 1) * (m + 1) + j]! >= lengths[i * (m + 1) + j + 1]!) {
+            i++
+        } else {
+            j++
+        }
+    }
+    return pairs
+}
+
+/**
+ * Returns all lines of both texts, marked as unchanged, removed from the old text or added in the new text.
+ * Removed lines come before the added lines that replace them.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+    const oldLines = splitLines(oldText)
+    const newLines = splitLines(newText)
+
+    // Common lines at the start and end are compared directly, which keeps the table small for typical edits
+    let prefix = 0
+    while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) prefix++
+    let suffix = 0
+    while (suffix < oldLines.length - prefix && suffix < newLines.length - prefix
+        && oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]) suffix++
+
+    const middleOld = oldLines.slice(prefix, oldLines.length - suffix)
+    const middleNew = newLines.slice(prefix, newLines.length - suffix)
+    const pairs: [number, number][] = [
+        ...Array.from({ length: prefix }, (_, k): [number, number] => [k, k]),
+        ...getCommonLines(middleOld, middleNew).map(([i, j]): [number, number] => [i + prefix, j + prefix]),
+        ...Array.from({ length: suffix }, (_, k): [number, number] => [oldLines.length - suffix + k, newLines.length - suffix + k]),
+    ]
+
+    const result: DiffLine[] = []
+    let i = 0
+    let j = 0
+    // The end of both texts acts as a final common line
+    for (const [commonOld, commonNew] of [...pairs, [oldLines.length, newLines.length] as [number, number]]) {
+        for (; i < commonOld; i++) result.push({ type: 'removed', text: oldLines[i]!, oldLine: i + 1 })
+        for (; j < commonNew; j++) result.push({ type: 'added', text: newLines[j]!, newLine: j + 1 })
+        if (i < oldLines.length && j < newLines.length) {
+            result.push({ type: 'unchanged', text: oldLines[i]!, oldLine: i + 1, newLine: j + 1 })
+            i++
+            j++
+        }
+    }
+    return result
+}
+
+/**
+ * Groups changed lines into hunks with the given number of unchanged lines around them, as in unified diffs.
+ * Returns no hunks if the texts have the same lines.
+ */
+export function getDiffHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+    // Line ranges of the hunks; ranges that touch are merged
+    const ranges: { start: number, end: number }[] = []
+    for (let index = 0; index < lines.length; index++) {
+        if (lines[index]!.type === 'unchanged') continue
+        const start = Math.max(0, index - context)
+        const end = Math.min(lines.length, index + context + 1)
+        const last = ranges[ranges.length - 1]
+        if (last && start <= last.end) {
+            last.end = end
+        } else {
+            ranges.push({ start, end })
+        }
+    }
+
+    const hunks: DiffHunk[] = []
+    for (const { start, end } of ranges) {
+        const hunkLines = lines.slice(start, end)
+        // Number of lines of each side before the hunk
+        const before = lines.slice(0, start)
+        const oldBefore = before.filter(line => line.type !== 'added').length
+        const newBefore = before.filter(line => line.type !== 'removed').length
+        const oldLines = hunkLines.filter(line => line.type !== 'added').length
+        const newLines = hunkLines.filter(line => line.type !== 'removed').length
+        hunks.push({
+            // As in unified diffs, an empty side starts at the line before
+            oldStart: oldLines > 0 ? oldBefore + 1 : oldBefore,
+            oldLines,
+            newStart: newLines > 0 ? newBefore + 1 : newBefore,
+            newLines,
+            lines: hunkLines,
+        })
+    }
+    return hunks
+}
+
+// Detects binary content as git does, by looking for a NUL byte near the start
+export function isBinaryContent(content: Uint8Array): boolean {
+    return content.subarray(0, 8000).includes(0)
+}
@@ -0,0 +1,67 @@
+import { App, Modal, TFile } from 'obsidian'
+import { EvaluationTrace, NotCriterion } from './criterion'
+
+function getResultLabel(result: boolean | undefined): string {
+    if (result === undefined) return 'skipped'
+    return result ? 'true' : 'false'
+}
+
+// Composite criteria are labeled by the first line of their summary, which names e.g. the referenced definition
+// or the link parameters, as the rest of the summary repeats the children shown below them
+function getTraceLabel(trace: EvaluationTrace): string {
+    if (trace.children.length === 0) return trace.criterion.getSummary()
+    if (trace.criterion instanceof NotCriterion) return 'NOT'
+    return trace.criterion.getSummary().split('\n')[0]!.replace(/:$/, '')
+}
+
+export interface PublishingDecision {
+    trace: EvaluationTrace
+    published: boolean
+    // Rules applied after the criterion that include or exclude the note, e.g. .publishignore files
+    reasons: string[]
+}
+
+export class ExplanationModal extends Modal {
+    constructor(app: App, private file: TFile, private decision: PublishingDecision) {
+        super(app)
+    }
+
+    onOpen() {
+        const { contentEl } = this
+        this.setTitle('Publishing decision')
+        contentEl.empty()
+
+        const { trace, published, reasons } = this.decision
+        const match = trace.result ? 'matches' : 'does not match'
+        contentEl.createEl('p', { text: `${this.file.path} ${match} the publishing criterion.` })
+        if (reasons.length > 0) {
+            for (const reason of reasons) {
+                contentEl.createEl('p', { text: reason })
+            }
+            contentEl.createEl('p', { text: published ? 'It is published.' : 'It is not published.' })
+        }
+
+        const treeEl = contentEl.createEl('ul', { cls: 'sp-trace-tree' })
+        this.renderTrace(treeEl, trace)
+    }
+
+    private renderTrace(container: HTMLElement, trace: EvaluationTrace) {
+        const resultLabel = getResultLabel(trace.result)
+        const li = container.createEl('li', { cls: `is-${resultLabel}` })
+        const row = li.createDiv({ cls: 'sp-trace-node' })
+        row.createSpan({ text: resultLabel, cls: 'sp-trace-badge' })
+
+        row.createSpan({ text: getTraceLabel(trace), cls: 'sp-trace-label' })
+
+        if (trace.children.length > 0) {
+            const childList = li.createEl('ul', { cls: 'sp-trace-tree' })
+            for (const child of trace.children) {
+                this.renderTrace(childList, child)
+            }
+        }
+    }
+
+    onClose() {
+        this.contentEl.empty()
+    }
+}
@@ -0,0 +1,83 @@
+import { App, Modal } from 'obsidian'
+import { createHash } from 'crypto'
+import { Buffer } from 'buffer'
+import { FileComparison } from './publishing-service'
+import { diffLines, getDiffHunks, isBinaryContent } from './diff'
+
+function formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * Shows the changes that publishing makes to a file: a unified diff for text files,
+ * and the sizes and hashes of both versions for binary files.
+ */
+export class FileDiffModal extends Modal {
+    constructor(app: App, private path: string, private comparison: FileComparison) {
+        super(app)
+    }
+
+    onOpen() {
+        const { contentEl } = this
+        this.setTitle(this.path)
+        contentEl.empty()
+
+        const { repoContent, content } = this.comparison
+        if ((repoContent && isBinaryContent(repoContent)) || (content && isBinaryContent(content))) {
+            this.renderBinaryComparison(contentEl)
+        } else {
+            this.renderTextDiff(contentEl, repoContent?.toString('utf8') ?? '', content?.toString('utf8') ?? '')
+        }
+    }
+
+    private renderTextDiff(container: HTMLElement, oldText: string, newText: string) {
+        const lines = diffLines(oldText, newText)
+        const hunks = getDiffHunks(lines)
+        if (hunks.length === 0) {
+            container.createEl('p', { text: 'The published content is the same as in the repository.' })
+            return
+        }
+
+        const added = lines.filter(line => line.type === 'added').length
+        const removed = lines.filter(line => line.type === 'removed').length
+        container.createEl('p', { text: `${added} lines added, ${removed} lines removed`, cls: 'sp-diff-summary' })
+
+        const diffEl = container.createDiv({ cls: 'sp-diff' })
+        for (const hunk of hunks) {
+            diffEl.createDiv({
+                text: `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+                cls: 'sp-diff-line is-hunk-header',
+            })
+            for (const line of hunk.lines) {
+                const lineEl = diffEl.createDiv({ cls: `sp-diff-line is-${line.type}` })
+                lineEl.createSpan({ text: line.oldLine?.toString() ?? '', cls: 'sp-diff-line-number' })
+                lineEl.createSpan({ text: line.newLine?.toString() ?? '', cls: 'sp-diff-line-number' })
+                const marker = line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '
+                lineEl.createSpan({ text: `${marker} ${line.text}`, cls: 'sp-diff-line-text' })
+            }
+        }
+    }
+
+    private renderBinaryComparison(container: HTMLElement) {
+        const { repoContent, content } = this.comparison
+        const isSame = repoContent !== null && content !== null && repoContent.equals(content)
+        container.createEl('p', { text: isSame ? 'The binary file is the same as in the repository.' : 'The binary file changes.' })
+
+        const table = container.createEl('table', { cls: 'sp-diff-binary' })
+        const header = table.createEl('tr')
+        for (const label of ['', 'Size', 'SHA-256']) header.createEl('th', { text: label })
+        const rows: [string, Buffer | null][] = [['Repository', repoContent], ['Published', content]]
+        for (const [label, data] of rows) {
+            const row = table.createEl('tr')
+            row.createEl('td', { text: label })
+            row.createEl('td', { text: data ? formatSize(data.length) : 'none' })
+            row.createEl('td', { text: data ? createHash('sha256').update(data).digest('hex') : 'none', cls: 'sp-diff-hash' })
+        }
+    }
+
+    onClose() {
+        this.contentEl.empty()
+    }
+}
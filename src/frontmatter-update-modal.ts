@@ -0,0 +1,88 @@
+import { App, Modal, Setting, ButtonComponent, parseYaml } from 'obsidian'
+import { Criterion, FrontmatterCriterion, FrontmatterMatchMode, InheritedCriterion, NotCriterion } from './criterion'
+
+export interface FrontmatterUpdate {
+    key: string
+    value: unknown
+}
+
+/**
+ * Suggests a frontmatter property that makes a note match the criterion, or no longer match it, from the first
+ * frontmatter or inherited criterion that checks for a specific value. Falls back to `publish: true` or `publish: false`.
+ * Other parts of the criterion may still decide otherwise, so the note has to be checked again after the update.
+ */
+export function suggestFrontmatterUpdate(criterion: Criterion, shouldMatch: boolean): FrontmatterUpdate {
+    const visit = (node: Criterion, wantMatch: boolean): FrontmatterUpdate | null => {
+        if (node instanceof FrontmatterCriterion && node.key.trim()) {
+            switch (node.matchMode) {
+                case FrontmatterMatchMode.IsTrue: return { key: node.key, value: wantMatch }
+                case FrontmatterMatchMode.IsFalse: return { key: node.key, value: !wantMatch }
+                case FrontmatterMatchMode.Equals: return wantMatch ? { key: node.key, value: node.value } : null
+                default: return null
+            }
+        }
+        // The value in the note itself takes precedence over inherited values
+        if (node instanceof InheritedCriterion && node.key.trim()) return { key: node.key, value: wantMatch }
+        const childWantMatch = node instanceof NotCriterion ? !wantMatch : wantMatch
+        for (const child of node.getChildren()) {
+            const update = visit(child, childWantMatch)
+            if (update) return update
+        }
+        return null
+    }
+    return visit(criterion, shouldMatch) ?? { key: 'publish', value: shouldMatch }
+}
+
+// Values are written as YAML, so that e.g. `true` becomes a boolean
+function parseValue(text: string): unknown {
+    try {
+        return parseYaml(text) ?? ''
+    } catch {
+        return text
+    }
+}
+
+/**
+ * Asks whether to set a frontmatter property of a note, e.g. so that it matches the publishing criterion.
+ */
+export class FrontmatterUpdateModal extends Modal {
+    constructor(app: App, private message: string, private suggestion: FrontmatterUpdate, private onSubmit: (update: FrontmatterUpdate) => Promise<void>) {
+        super(app)
+    }
+
+    onOpen() {
+        const { contentEl, modalEl } = this
+        this.setTitle('Update frontmatter')
+        contentEl.empty()
+        contentEl.createEl('p', { text: this.message })
+
+        let key = this.suggestion.key
+        let value = typeof this.suggestion.value === 'string' ? this.suggestion.value : JSON.stringify(this.suggestion.value)
+        new Setting(contentEl)
+            .setName('Property')
+            .addText((text) => text.setValue(key).onChange((newKey) => { key = newKey.trim() }))
+        new Setting(contentEl)
+            .setName('Value')
+            .addText((text) => text.setValue(value).onChange((newValue) => { value = newValue }))
+
+        const btnContainer = modalEl.createDiv('modal-button-container')
+        new ButtonComponent(btnContainer)
+            .setButtonText('Update frontmatter')
+            .setCta()
+            .onClick(async () => {
+                if (!key) return
+                this.close()
+                await this.onSubmit({ key, value: parseValue(value) })
+            })
+
+        new ButtonComponent(btnContainer)
+            .setButtonText('Cancel')
+            .onClick(() => {
+                this.close()
+            })
+    }
+
+    onClose() {
+        this.contentEl.empty()
+    }
+}
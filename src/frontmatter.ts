@@ -0,0 +1,122 @@
+import { CachedMetadata, TFile, parseYaml, stringifyYaml } from 'obsidian'
+import { ContentTransformer } from './content-pipeline'
+import { getAllTagsFromFile } from './criterion'
+
+/**
+ * Filtering, renaming and injection of frontmatter properties when notes are published,
+ * so that private properties stay in the vault and static site generators get the properties they expect.
+ */
+
+export enum FrontmatterKeyFilter {
+    KeepAll = 'keep all',
+    AllowList = 'keep listed',
+    DenyList = 'remove listed',
+}
+
+export interface FrontmatterRules {
+    keyFilter: FrontmatterKeyFilter
+    // Comma-separated keys for the allow or deny list
+    keys: string
+    // Renamed keys, one "old: new" pair per line
+    renames: string
+    // Keys that computed values are written to; empty to leave them out
+    titleKey: string
+    createdKey: string
+    modifiedKey: string
+    tagsKey: string
+}
+
+export type ComputedFrontmatterKey = 'titleKey' | 'createdKey' | 'modifiedKey' | 'tagsKey'
+
+export const DEFAULT_FRONTMATTER_RULES: FrontmatterRules = {
+    keyFilter: FrontmatterKeyFilter.KeepAll,
+    keys: '',
+    renames: '',
+    titleKey: '',
+    createdKey: '',
+    modifiedKey: '',
+    tagsKey: '',
+}
+
+export const FRONTMATTER_TRANSFORMER_ID = 'frontmatter'
+
+const FRONTMATTER_REGEX = /^---\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/
+
+function parseKeyList(keys: string): string[] {
+    return keys.split(',').map(key => key.trim()).filter(key => key.length > 0)
+}
+
+/**
+ * Parses rename lines of the form `old: new`. Lines without a colon or with an empty key are ignored.
+ */
+export function parseFrontmatterRenames(renames: string): Map<string, string> {
+    const result = new Map<string, string>()
+    for (const line of renames.split('\n')) {
+        const index = line.indexOf(':')
+        if (index === -1) continue
+        const from = line.slice(0, index).trim()
+        const to = line.slice(index + 1).trim()
+        if (from && to) result.set(from, to)
+    }
+    return result
+}
+
+export function hasFrontmatterRules(rules: FrontmatterRules): boolean {
+    return rules.keyFilter === FrontmatterKeyFilter.AllowList
+        || (rules.keyFilter === FrontmatterKeyFilter.DenyList && parseKeyList(rules.keys).length > 0)
+        || parseFrontmatterRenames(rules.renames).size > 0
+        || [rules.titleKey, rules.createdKey, rules.modifiedKey, rules.tagsKey].some(key => key.trim() !== '')
+}
+
+/**
+ * Applies the rules to the frontmatter of a note: keys are filtered by their names in the note, then renamed,
+ * and then computed values are added for keys that the note does not set. The frontmatter is written as YAML
+ * again and removed if it ends up empty. Throws if the existing frontmatter is not valid YAML.
+ */
+export function transformFrontmatter(content: string, file: TFile, metadata: CachedMetadata | null, rules: FrontmatterRules): string {
+    if (!hasFrontmatterRules(rules)) return content
+
+    const match = content.match(FRONTMATTER_REGEX)
+    const body = match ? content.slice(match[0].length) : content
+    let frontmatter: Record<string, unknown> = {}
+    if (match?.[1]?.trim()) {
+        const parsed: unknown = parseYaml(match[1])
+        if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+            throw new Error('The frontmatter is not a YAML mapping')
+        }
+        frontmatter = parsed as Record<string, unknown>
+    }
+
+    const keys = new Set(parseKeyList(rules.keys))
+    const renames = parseFrontmatterRenames(rules.renames)
+    const result: Record<string, unknown> = {}
+    for (const [key, value] of Object.entries(frontmatter)) {
+        if (rules.keyFilter === FrontmatterKeyFilter.AllowList && !keys.has(key)) continue
+        if (rules.keyFilter === FrontmatterKeyFilter.DenyList && keys.has(key)) continue
+        result[renames.get(key) ?? key] = value
+    }
+
+    const computed: [string, () => unknown][] = [
+        [rules.titleKey, () => file.basename],
+        [rules.createdKey, () => new Date(file.stat.ctime).toISOString()],
+        [rules.modifiedKey, () => new Date(file.stat.mtime).toISOString()],
+        [rules.tagsKey, () => metadata ? getAllTagsFromFile(metadata) : []],
+    ]
+    for (const [key, getValue] of computed) {
+        const trimmedKey = key.trim()
+        if (trimmedKey && result[trimmedKey] === undefined) result[trimmedKey] = getValue()
+    }
+
+    if (Object.keys(result).length === 0) return body
+    return `---\n${stringifyYaml(result).trimEnd()}\n---\n${body}`
+}
+
+// Built-in pipeline step that applies the frontmatter rules returned by getRules
+export function createFrontmatterTransformer(getRules: () => FrontmatterRules): ContentTransformer {
+    return {
+        id: FRONTMATTER_TRANSFORMER_ID,
+        name: 'Frontmatter',
+        description: 'Filters and renames properties and adds computed properties according to the frontmatter settings.',
+        transform: (content, context) => transformFrontmatter(content, context.file, context.metadata, getRules()),
+    }
+}
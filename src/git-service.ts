@@ -19,6 +19,15 @@ function toExecFileError(error: unknown): ExecFileError {
     return new Error(String(error)) as ExecFileError
 }
 
+/**
+ * Whether a failed git command stopped because of a merge conflict. git pull reports the conflicting
+ * files on stdout ("CONFLICT (content): ..."), and some versions or merge strategies on stderr.
+ */
+export function isMergeConflictError(error: unknown): boolean {
+    const execError = toExecFileError(error)
+    return [execError.stdout, execError.stderr, execError.message].some(output => output?.includes('CONFLICT'))
+}
+
 export interface RepoValidationResult {
     isValid: boolean
     error?: string
@@ -48,18 +57,27 @@ export class GitHelper {
         }
     }
 
-    static async add(repoPath: string): Promise<void> {
+    // Stages all changes, or only the changes to the given paths
+    static async add(repoPath: string, paths?: string[]): Promise<void> {
         try {
-            await execFileAsync('git', ['add', '.'], { cwd: repoPath })
+            if (!paths) {
+                await execFileAsync('git', ['add', '.'], { cwd: repoPath })
+                return
+            }
+            const knownPaths = await this.getKnownPaths(repoPath, paths)
+            if (knownPaths.length > 0) await execFileAsync('git', ['--literal-pathspecs', 'add', '-A', '--', ...knownPaths], { cwd: repoPath })
         } catch (error) {
             this.handleGitError(repoPath, error, 'stage changes')
         }
     }
 
-    static async commit(repoPath: string, message: string): Promise<void> {
+    // Commits all staged changes, or only the changes to the given paths
+    static async commit(repoPath: string, message: string, paths?: string[]): Promise<void> {
         try {
+            const knownPaths = paths && await this.getKnownPaths(repoPath, paths)
+            if (knownPaths?.length === 0) return
             try {
-                await execFileAsync('git', ['commit', '-m', message], { cwd: repoPath })
+                await execFileAsync('git', ['--literal-pathspecs', 'commit', '-m', message, ...(knownPaths ? ['--', ...knownPaths] : [])], { cwd: repoPath })
             } catch (err) {
                 const execError = toExecFileError(err)
                 if (!execError.stdout?.includes('nothing to commit') && !execError.stderr?.includes('nothing to commit')) {
@@ -83,15 +101,25 @@ export class GitHelper {
         try {
             await execFileAsync('git', ['pull', 'origin', branch], { cwd: repoPath })
         } catch (error) {
-            // Check if it's a merge conflict
-            const execError = toExecFileError(error)
-            if (execError.stderr?.includes('CONFLICT') || execError.message.includes('CONFLICT')) {
+            if (isMergeConflictError(error)) {
                 throw new Error('Merge conflict detected. Please resolve conflicts manually in your repository.')
             }
             this.handleGitError(repoPath, error, 'pull from remote')
         }
     }
 
+    // Returns the paths that exist, are tracked or are staged for deletion, as git rejects other paths,
+    // e.g. deleted files that were never committed. Like all commands that take note paths, this uses literal
+    // pathspecs, as note names may contain characters such as * or [ that git would otherwise treat as patterns.
+    // The publishing folder may be a subfolder of the repository, so git diff has to report paths relative to it.
+    private static async getKnownPaths(repoPath: string, paths: string[]): Promise<string[]> {
+        if (paths.length === 0) return []
+        const files = await execFileAsync('git', ['--literal-pathspecs', 'ls-files', '-z', '--cached', '--others', '--', ...paths], { cwd: repoPath })
+        const deletions = await execFileAsync('git', ['--literal-pathspecs', 'diff', '--cached', '--relative', '--name-only', '--diff-filter=D', '-z', '--', ...paths], { cwd: repoPath })
+        const known = new Set([...files.stdout.split('\0'), ...deletions.stdout.split('\0')])
+        return paths.filter(path => known.has(path))
+    }
+
     private static formatGitError(repoPath: string, error: ExecFileError, action: string): string {
         let help = ''
         if (error.code === 'ENOENT') {
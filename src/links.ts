@@ -0,0 +1,171 @@
+import { TFile } from 'obsidian'
+import * as path from 'path'
+import { ContentTransformer } from './content-pipeline'
+import { splitByCodeBlocks } from './redaction'
+
+/**
+ * Rewriting of internal links when notes are published, so that published notes neither reveal
+ * the titles of private notes nor contain links that are broken on the published site.
+ */
+
+export enum UnpublishedLinkMode {
+    PlainText = 'plain text',
+    Placeholder = 'placeholder',
+}
+
+export interface LinkRules {
+    // How links to notes and files that are not published are replaced
+    unpublishedLinks: UnpublishedLinkMode
+    // Replacement for links to unpublished notes; {text} is replaced with the link text
+    placeholder: string
+    // Convert wikilinks to published notes and files to relative markdown links
+    convertToMarkdownLinks: boolean
+}
+
+export const DEFAULT_LINK_RULES: LinkRules = {
+    unpublishedLinks: UnpublishedLinkMode.PlainText,
+    placeholder: '{text} (private)',
+    convertToMarkdownLinks: false,
+}
+
+export const LINKS_TRANSFORMER_ID = 'links'
+
+// Resolves a link path as Obsidian does, e.g. through MetadataCache.getFirstLinkpathDest
+export type LinkResolver = (linkpath: string, sourcePath: string) => TFile | null
+
+export interface LinkTransformResult {
+    content: string
+    // Links and embeds to notes and files that are not published, as written in the note
+    unpublishedLinks: string[]
+}
+
+interface ParsedLink {
+    isEmbed: boolean
+    isWikilink: boolean
+    linkpath: string
+    // Heading or block reference including the leading #, or the empty string
+    subpath: string
+    // Text shown for the link
+    text: string
+}
+
+// Wikilinks and embeds, or markdown links and embeds
+const LINK_REGEX = /(!?)\[\[([^\]\n]+?)\]\]|(!?)\[([^\]\n]*)\]\((<[^>\n]+>|[^)\s]+)\)/g
+const INLINE_CODE_REGEX = /(`+)[^`\n][^\n]*?\1/g
+const URL_SCHEME_REGEX = /^[a-z][a-z\d+.-]*:/i
+
+function splitSubpath(target: string): { linkpath: string, subpath: string } {
+    const index = target.indexOf('#')
+    return index === -1 ? { linkpath: target, subpath: '' } : { linkpath: target.slice(0, index), subpath: target.slice(index) }
+}
+
+function decodeLinkPath(url: string): string {
+    try {
+        return decodeURI(url)
+    } catch {
+        return url
+    }
+}
+
+// Parses the groups of a LINK_REGEX match. Returns null for links that are not internal,
+// such as URLs and anchors in the same note.
+function parseLink(groups: (string | undefined)[]): ParsedLink | null {
+    const [wikiEmbed, wikiTarget, markdownEmbed, markdownText, markdownUrl] = groups
+    if (wikiTarget !== undefined) {
+        // In tables, the pipe before the alias is escaped as \| so that it does not end the cell
+        const separator = /\\?\|/.exec(wikiTarget)
+        const target = separator ? wikiTarget.slice(0, separator.index) : wikiTarget
+        const { linkpath, subpath } = splitSubpath(target.trim())
+        // Obsidian shows links to headings as "Note > Heading"
+        const defaultText = [linkpath, ...subpath.split('#').filter(Boolean)].filter(Boolean).join(' > ')
+        const text = separator ? wikiTarget.slice(separator.index + separator[0].length) : defaultText
+        return { isEmbed: wikiEmbed === '!', isWikilink: true, linkpath, subpath, text }
+    }
+
+    const url = markdownUrl!.replace(/^<|>$/g, '')
+    if (URL_SCHEME_REGEX.test(url) || url.startsWith('#')) return null
+    const { linkpath, subpath } = splitSubpath(url)
+    return { isEmbed: markdownEmbed === '!', isWikilink: false, linkpath: decodeLinkPath(linkpath), subpath, text: markdownText! }
+}
+
+// Heading anchor as generated by common static site generators
+export function slugifyHeading(heading: string): string {
+    return heading.trim().toLowerCase().replace(/[^\p{L}\p{N}\s_-]/gu, '').replace(/\s+/g, '-')
+}
+
+// Formats a link to a published target as a markdown link relative to the repository path of the source
+function formatMarkdownLink(link: ParsedLink, sourceRepoPath: string, target: TFile, targetRepoPath: string): string {
+    const relativePath = path.posix.relative(path.posix.dirname(sourceRepoPath), targetRepoPath)
+    const url = relativePath.split('/').map(encodeURIComponent).join('/')
+    const heading = link.subpath.split('#').filter(Boolean).pop()
+    // Block references have no counterpart in markdown
+    const anchor = heading && !heading.startsWith('^') ? `#${slugifyHeading(heading)}` : ''
+    // Notes cannot be embedded in markdown, so note embeds become links
+    const isImage = link.isEmbed && target.extension !== 'md'
+    return `${isImage ? '!' : ''}[${link.text}](${url}${anchor})`
+}
+
+function replaceLinks(text: string, replace: (original: string, link: ParsedLink) => string): string {
+    return text.replace(LINK_REGEX, (original: string, ...groups: (string | undefined)[]) => {
+        const link = parseLink(groups)
+        return link ? replace(original, link) : original
+    })
+}
+
+// Applies the replacement to text outside fenced code blocks and inline code
+function replaceOutsideCode(content: string, replace: (text: string) => string): string {
+    return splitByCodeBlocks(content.split('\n')).map(run => {
+        const text = run.lines.join('\n')
+        if (run.isCode) return text
+
+        let result = ''
+        let lastIndex = 0
+        for (const match of text.matchAll(INLINE_CODE_REGEX)) {
+            result += replace(text.slice(lastIndex, match.index)) + match[0]
+            lastIndex = match.index + match[0].length
+        }
+        return result + replace(text.slice(lastIndex))
+    }).join('\n')
+}
+
+/**
+ * Replaces links and embeds to notes and files that are not published according to the rules and,
+ * if enabled, converts wikilinks to published targets to relative markdown links. Markdown links to
+ * published targets are adjusted if the source or target is published under another path.
+ * Links in code are left unchanged.
+ *
+ * repoPaths maps the vault paths of the published files to their repository paths.
+ */
+export function transformLinks(content: string, sourcePath: string, resolve: LinkResolver, repoPaths: ReadonlyMap<string, string>, rules: LinkRules): LinkTransformResult {
+    const sourceRepoPath = repoPaths.get(sourcePath) ?? sourcePath
+    const unpublishedLinks: string[] = []
+    const transformed = replaceOutsideCode(content, text => replaceLinks(text, (original, link) => {
+        // Links to headings in the same note have no link path
+        const target = link.linkpath === '' ? null : resolve(link.linkpath, sourcePath)
+        const targetRepoPath = target ? repoPaths.get(target.path) : undefined
+        if (link.linkpath !== '' && (!target || targetRepoPath === undefined)) {
+            unpublishedLinks.push(original)
+            if (rules.unpublishedLinks === UnpublishedLinkMode.Placeholder) return rules.placeholder.replace(/\{text\}/g, () => link.text)
+            // Embedded content is left out entirely
+            return link.isEmbed ? '' : link.text
+        }
+        if (!target || targetRepoPath === undefined) return original
+        const isMapped = sourceRepoPath !== sourcePath || targetRepoPath !== target.path
+        if (link.isWikilink ? rules.convertToMarkdownLinks : isMapped) return formatMarkdownLink(link, sourceRepoPath, target, targetRepoPath)
+        return original
+    }))
+    return { content: transformed, unpublishedLinks }
+}
+
+// Built-in pipeline step that rewrites links according to the rules returned by getRules
+export function createLinksTransformer(getRules: () => LinkRules): ContentTransformer {
+    return {
+        id: LINKS_TRANSFORMER_ID,
+        name: 'Links',
+        description: 'Replaces links to notes that are not published and optionally converts wikilinks to Markdown links.',
+        transform: (content, context) => {
+            const resolve: LinkResolver = (linkpath, sourcePath) => context.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath)
+            return transformLinks(content, context.file.path, resolve, context.repoPaths, getRules()).content
+        },
+    }
+}
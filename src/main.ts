@@ -1,21 +1,47 @@
-import { Notice, Plugin, TFile } from 'obsidian'
+import { CachedMetadata, EventRef, Notice, Plugin, TAbstractFile, TFile, normalizePath } from 'obsidian'
 import { PublishPreviewModal, PublishAction } from './publish-preview-modal'
 import { FailureModal } from './failure-modal'
-import { Criterion, TextMatchMode, TagMatchMode, PathCriterion, OrCriterion, NotCriterion, TagCriterion, TitleCriterion, matchesGlobPatterns } from './criterion'
+import { ExplanationModal, PublishingDecision } from './explanation-modal'
+import { Criterion, CriterionContext, ContentNotLoadedError, DeserializationContext, SerializedCriterion, renameCriterionReferences, TextMatchMode, TagMatchMode, PathCriterion, OrCriterion, NotCriterion, TagCriterion, TitleCriterion, matchesGlobPatterns, getMarkerFileNames } from './criterion'
 import { SelectivePublisherSettingTab } from './settings-tab'
 import { GitHelper } from './git-service'
-import { PublishingService } from './publishing-service'
+import { PublishingService, FileWithStatus, FileUpdateStatus, MANIFEST_FILE_NAME } from './publishing-service'
+import { RedactionRules, DEFAULT_REDACTION_RULES, createRedactionTransformer } from './redaction'
+import { ContentPipeline, ContentTransformer } from './content-pipeline'
+import { LinkRules, DEFAULT_LINK_RULES, createLinksTransformer } from './links'
+import { FrontmatterRules, DEFAULT_FRONTMATTER_RULES, createFrontmatterTransformer } from './frontmatter'
+import { PathMappingRules, DEFAULT_PATH_MAPPING_RULES } from './path-mapping'
+import { IgnoredFile, loadPublishIgnoreRules } from './publish-ignore'
+import { FrontmatterUpdate, FrontmatterUpdateModal, suggestFrontmatterUpdate } from './frontmatter-update-modal'
+import { loadSettingsData, SettingsData, SettingsValidationError, SETTINGS_VERSION } from './settings-schema'
+import { formatSettingsFile, getSharedSettingsData, parseSettingsFile } from './settings-file'
 
 interface SelectivePublisherSettings {
     repo: string
     repoBranch: string
     criterion: Criterion
+    // Named criteria that Reference criteria can point to
+    criterionDefinitions: Record<string, SerializedCriterion>
     commitMessage: string
     showPreviewBeforePublishing: boolean
     publishAttachments: boolean
     extraFilePatterns: string
+    // Glob patterns of repository paths that are never deleted
+    protectedPaths: string
+    redaction: RedactionRules
+    links: LinkRules
+    frontmatter: FrontmatterRules
+    pathMapping: PathMappingRules
+    // Ids of the content transformers that are not applied
+    disabledTransformers: string[]
+    // Vault file that settings are exported to and imported from
+    settingsFile: string
+    // Read the settings from the settings file instead of the plugin data
+    useSettingsFile: boolean
 }
 
+type SavedData = Partial<Omit<SelectivePublisherSettings, 'criterion'> & { criterion: SerializedCriterion }>
+
 async function filterAsync<T>(arr: T[], cond: (el: T) => Promise<boolean>): Promise<T[]> {
     const results = await Promise.all(arr.map(cond))
     return arr.filter((_, index) => results[index])
@@ -31,19 +57,70 @@ const DEFAULT_SETTINGS: SelectivePublisherSettings = {
         new TitleCriterion('Untitled*', TextMatchMode.Glob),
         new TitleCriterion('^\\d+-\\d+-\\d+$', TextMatchMode.Regex),
     ])),
+    criterionDefinitions: {},
     commitMessage: 'Update published notes',
     showPreviewBeforePublishing: true,
     publishAttachments: true,
     extraFilePatterns: '*.sty\n*.bib',
+    protectedPaths: '',
+    redaction: DEFAULT_REDACTION_RULES,
+    links: DEFAULT_LINK_RULES,
+    frontmatter: DEFAULT_FRONTMATTER_RULES,
+    pathMapping: DEFAULT_PATH_MAPPING_RULES,
+    disabledTransformers: [],
+    settingsFile: 'publishing-settings.yaml',
+    useSettingsFile: false,
+}
+
+// Replaces a saved criterion that cannot be loaded. Unlike the default criterion, which matches most notes,
+// it publishes nothing until the criterion is fixed.
+function createMatchNothingCriterion(): Criterion {
+    return new OrCriterion([])
+}
+
+// Whether the error concerns the publishing criterion, or keeps all of the saved data from being read
+function isCriterionError(error: SettingsValidationError): boolean {
+    return error.path === '' || error.path === 'version' || /^criterion($|[.[])/.test(error.path)
+}
+
+// Copy of the default settings whose nested rules can be changed without affecting the defaults
+function createDefaultSettings(): SelectivePublisherSettings {
+    return {
+        ...DEFAULT_SETTINGS,
+        redaction: { ...DEFAULT_REDACTION_RULES },
+        links: { ...DEFAULT_LINK_RULES },
+        frontmatter: { ...DEFAULT_FRONTMATTER_RULES },
+        pathMapping: { ...DEFAULT_PATH_MAPPING_RULES },
+    }
 }
 
 export default class SelectivePublisherPlugin extends Plugin {
     settings!: SelectivePublisherSettings
     publishingService!: PublishingService
+    readonly contentPipeline = new ContentPipeline((id) => !this.settings.disabledTransformers.includes(id))
+    // Whether the settings file could not be read; it is then not overwritten until it is fixed
+    private settingsFileInvalid = false
+    // Content last written to the settings file, to ignore the resulting modify event
+    private settingsFileContent: string | null = null
+    private settingTab: SelectivePublisherSettingTab | null = null
 
     async onload() {
         await this.loadSettings()
-        this.publishingService = new PublishingService(this.app, this.settings.repo)
+        if (this.settings.useSettingsFile) await this.loadSettingsFile()
+        this.contentPipeline.register(createRedactionTransformer(() => this.settings.redaction))
+        this.contentPipeline.register(createLinksTransformer(() => this.settings.links))
+        this.contentPipeline.register(createFrontmatterTransformer(() => this.settings.frontmatter))
+        this.publishingService = this.createPublishingService()
+
+        // The settings file is also picked up when it is created or renamed after the plugin has loaded
+        const reloadSettingsFile = (file: TAbstractFile) => {
+            if (this.settings.useSettingsFile && file.path === this.getSettingsFilePath()) {
+                void this.loadSettingsFile()
+            }
+        }
+        this.registerEvent(this.app.vault.on('modify', reloadSettingsFile))
+        this.registerEvent(this.app.vault.on('create', reloadSettingsFile))
+        this.registerEvent(this.app.vault.on('rename', reloadSettingsFile))
 
         // Add publish command
         this.addCommand({
@@ -59,15 +136,80 @@ export default class SelectivePublisherPlugin extends Plugin {
             callback: () => this.previewPublishableFiles(),
         })
 
+        // Add explanation command for the active note
+        this.addCommand({
+            id: 'explain-publishing-decision',
+            name: 'Explain publishing decision for current note',
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile()
+                if (!file || file.extension !== 'md') return false
+                if (!checking) void this.explainPublishingDecision(file)
+                return true
+            },
+        })
+
+        this.addCommand({
+            id: 'publish-current-note',
+            name: 'Publish current note',
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile()
+                if (!file || file.extension !== 'md') return false
+                if (!checking) void this.publishSingleNote(file, true)
+                return true
+            },
+        })
+
+        this.addCommand({
+            id: 'unpublish-current-note',
+            name: 'Unpublish current note',
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile()
+                if (!file || file.extension !== 'md') return false
+                if (!checking) void this.publishSingleNote(file, false)
+                return true
+            },
+        })
+
+        this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+            if (!(file instanceof TFile) || file.extension !== 'md') return
+            menu.addItem((item) => item
+                .setTitle('Publish note')
+                .setIcon('paper-plane')
+                .onClick(() => { void this.publishSingleNote(file, true) }))
+            menu.addItem((item) => item
+                .setTitle('Unpublish note')
+                .setIcon('circle-slash')
+                .onClick(() => { void this.publishSingleNote(file, false) }))
+        }))
+
+        this.addCommand({
+            id: 'export-settings',
+            name: 'Export settings to file',
+            callback: () => this.exportSettings(),
+        })
+
+        this.addCommand({
+            id: 'import-settings',
+            name: 'Import settings from file',
+            callback: () => this.importSettings(),
+        })
+
         // Add a ribbon icon
         this.addRibbonIcon('paper-plane', 'Publish notes', () => { void this.publishNotes() })
 
-        this.addSettingTab(new SelectivePublisherSettingTab(this.app, this))
+        this.settingTab = new SelectivePublisherSettingTab(this.app, this)
+        this.addSettingTab(this.settingTab)
     }
 
     async getPublishableFiles(): Promise<TFile[]> {
-        const markdownFiles = this.app.vault.getMarkdownFiles()
-        const publishableNotes = await this.filterPublishableFiles(markdownFiles)
+        return (await this.collectPublishableFiles()).files
+    }
+
+    // Returns the publishable files together with the files that .publishignore files excluded from them
+    async collectPublishableFiles(): Promise<{ files: TFile[], ignoredFiles: IgnoredFile[] }> {
+        // Marker files of Inherited criteria configure their folder and are not published themselves
+        const markerFiles = getMarkerFileNames(this.settings.criterion)
+        const publishableNotes = (await this.getMatchingNotes(this.settings.criterion)).filter(file => !markerFiles.has(file.name))
 
         const publishableSet = new Set<TFile>()
         for (const file of publishableNotes) {
@@ -88,7 +230,19 @@ export default class SelectivePublisherPlugin extends Plugin {
             }
         }
 
-        return Array.from(publishableSet)
+        const candidates = Array.from(publishableSet)
+        const ignoreRules = await loadPublishIgnoreRules(this.app.vault.adapter, candidates.map(f => f.path))
+        const files: TFile[] = []
+        const ignoredFiles: IgnoredFile[] = []
+        for (const file of candidates) {
+            const ignoreFile = ignoreRules.getExcludingFile(file.path)
+            if (ignoreFile === null) {
+                files.push(file)
+            } else {
+                ignoredFiles.push({ path: file.path, ignoreFile })
+            }
+        }
+        return { files, ignoredFiles }
     }
 
     private getReferencedAttachments(file: TFile): TFile[] {
@@ -111,16 +265,19 @@ export default class SelectivePublisherPlugin extends Plugin {
 
     async previewPublishableFiles() {
         try {
-            const publishableFiles = await this.getPublishableFiles()
+            const { files: publishableFiles, ignoredFiles } = await this.collectPublishableFiles()
             const fileStatuses = await this.publishingService.getPublishingStatuses(publishableFiles)
             const hasUncommittedChanges = await GitHelper.hasUncommittedChanges(this.settings.repo)
+            const hasManifest = await this.publishingService.hasManifest()
 
             if (fileStatuses.length === 0 && !hasUncommittedChanges) {
                 new Notice('No files to publish or unpublish.')
                 return
             }
 
-            const modal = new PublishPreviewModal(this.app, fileStatuses, hasUncommittedChanges, (action: PublishAction) => this.publishNotes(action === 'commit', true, publishableFiles))
+            const modal = new PublishPreviewModal(this.app, fileStatuses, ignoredFiles, hasUncommittedChanges, hasManifest,
+                (action: PublishAction, selectedFiles?: FileWithStatus[]) => this.publishNotes(action === 'commit', true, publishableFiles, selectedFiles),
+                (file) => this.publishingService.compareFile(file, publishableFiles))
             modal.open()
         } catch (error) {
             console.error('Preview failed:', error)
@@ -128,7 +285,8 @@ export default class SelectivePublisherPlugin extends Plugin {
         }
     }
 
-    async publishNotes(onlyCommit = false, skipPreview = false, cachedPublishableFiles?: TFile[]) {
+    // With selected files from the preview, only the changes to those files are published
+    async publishNotes(onlyCommit = false, skipPreview = false, cachedPublishableFiles?: TFile[], selectedFiles?: FileWithStatus[]) {
         try {
             if (!skipPreview && this.settings.showPreviewBeforePublishing) {
                 await this.previewPublishableFiles()
@@ -145,87 +303,450 @@ export default class SelectivePublisherPlugin extends Plugin {
 
             if (!onlyCommit) {
                 // Sync with remote repository if not onlyCommit
-                try {
-                    await GitHelper.pull(this.settings.repo, this.settings.repoBranch)
-                } catch (syncError) {
-                    // Merge conflict occurred
-                    throw new Error(`Cannot sync with remote: ${(syncError as Error).message}`)
-                }
+                await this.pullFromRemote()
             }
 
             const publishableFiles = cachedPublishableFiles ?? await this.getPublishableFiles()
-            await this.publishingService.updateFilesInRepo(publishableFiles)
+            await this.publishingService.updateFilesInRepo(publishableFiles, selectedFiles)
 
             // Commit and optionally push changes
-            try {
-                await GitHelper.add(this.settings.repo)
-                await GitHelper.commit(this.settings.repo, this.settings.commitMessage)
-                if (!onlyCommit) {
-                    await GitHelper.push(this.settings.repo, this.settings.repoBranch)
+            await this.commitChanges(this.settings.commitMessage, selectedFiles, !onlyCommit)
+            const noteCount = selectedFiles
+                ? selectedFiles.filter(f => f.status !== FileUpdateStatus.Deleted && f.path.endsWith('.md')).length
+                : publishableFiles.filter(f => f.extension === 'md').length
+            new Notice(`Successfully ${operationStr}ed ${noteCount} notes.`)
+        } catch (error) {
+            console.error('Publishing failed:', error)
+            new FailureModal(this.app, error as Error, this.settings.repo).open()
+        }
+    }
+
+    /**
+     * Publishes or unpublishes a single note and its attachments, leaving other changes in the vault for later.
+     * If the note does not match the publishing criterion as it should, offers to update its frontmatter first.
+     */
+    async publishSingleNote(file: TFile, publish: boolean) {
+        if (await this.matchesPublishingCriterion(file) !== publish) {
+            const suggestion = suggestFrontmatterUpdate(this.settings.criterion, publish)
+            const message = publish
+                ? `${file.path} does not match the publishing criterion. Set a frontmatter property so that it matches?`
+                : `${file.path} matches the publishing criterion and would be published again. Set a frontmatter property so that it no longer matches?`
+            new FrontmatterUpdateModal(this.app, message, suggestion, async (update) => {
+                try {
+                    await this.updateFrontmatter(file, update)
+                    if (await this.matchesPublishingCriterion(file) !== publish) {
+                        new Notice(`${file.path} ${publish ? 'still does not match' : 'still matches'} the publishing criterion.`)
+                        return
+                    }
+                } catch (error) {
+                    console.error(`Failed to update the frontmatter of ${file.path}:`, error)
+                    new FailureModal(this.app, error as Error, this.settings.repo).open()
+                    return
                 }
-                const noteCount = publishableFiles.filter(f => f.extension === 'md').length
-                new Notice(`Successfully ${operationStr}ed ${noteCount} notes.`)
-            } catch (error) {
-                console.error('Git operation failed:', error)
-                throw new Error(`Git operation failed: ${(error as Error).message}`)
+                await this.updateSingleNote(file, publish)
+            }).open()
+            return
+        }
+        await this.updateSingleNote(file, publish)
+    }
+
+    private async updateSingleNote(file: TFile, publish: boolean) {
+        try {
+            if (!this.settings.repoBranch) {
+                new Notice('No publishing branch selected. Please check the settings.')
+                return
             }
+            await this.pullFromRemote()
+
+            const publishableFiles = await this.getPublishableFiles()
+            const publishablePaths = new Set(publishableFiles.map(f => f.path))
+            if (publishablePaths.has(file.path) !== publish) {
+                new Notice(publish ? `${file.path} is excluded by an ignore file.` : `${file.path} is still published as an extra file.`)
+                return
+            }
+
+            // Attachments that other published notes use stay published
+            const attachments = this.settings.publishAttachments ? this.getReferencedAttachments(file) : []
+            const files = [file, ...attachments].filter(f => publishablePaths.has(f.path) === publish)
+            const statuses = publish
+                ? await this.publishingService.getFileStatuses(files, publishableFiles)
+                : await this.publishingService.getRemovalStatuses(files)
+            const changes = statuses.filter(f => f.status !== FileUpdateStatus.Unmodified && f.status !== FileUpdateStatus.Unmanaged)
+            if (changes.length === 0) {
+                new Notice(publish ? `${file.path} is already published.` : `${file.path} is not published by this plugin.`)
+                return
+            }
+
+            await this.publishingService.updateFilesInRepo(publishableFiles, changes)
+            await this.commitChanges(`${publish ? 'Publish' : 'Unpublish'} ${file.path}`, changes, true)
+            new Notice(`Successfully ${publish ? 'published' : 'unpublished'} ${file.path}.`)
         } catch (error) {
             console.error('Publishing failed:', error)
             new FailureModal(this.app, error as Error, this.settings.repo).open()
         }
     }
 
+    // Sets a frontmatter property and waits until the metadata cache has picked up the change
+    private async updateFrontmatter(file: TFile, update: FrontmatterUpdate) {
+        let ref: EventRef | undefined
+        let timeout: number | undefined
+        const changed = new Promise<void>((resolve) => {
+            ref = this.app.metadataCache.on('changed', (changedFile) => {
+                if (changedFile.path === file.path) resolve()
+            })
+            // Setting a value that the note already has does not change the metadata
+            timeout = window.setTimeout(resolve, 2000)
+        })
+        try {
+            await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+                frontmatter[update.key] = update.value
+            })
+            await changed
+        } finally {
+            window.clearTimeout(timeout)
+            if (ref) this.app.metadataCache.offref(ref)
+        }
+    }
+
+    private async pullFromRemote() {
+        try {
+            await GitHelper.pull(this.settings.repo, this.settings.repoBranch)
+        } catch (syncError) {
+            // Merge conflict occurred
+            throw new Error(`Cannot sync with remote: ${(syncError as Error).message}`)
+        }
+    }
+
+    // Commits all changes in the repository, or only those to the selected files and the manifest, and optionally pushes them
+    private async commitChanges(message: string, selectedFiles: FileWithStatus[] | undefined, push: boolean) {
+        try {
+            const selectedPaths = selectedFiles && [...selectedFiles.map(f => f.repoPath ?? f.path), MANIFEST_FILE_NAME]
+            await GitHelper.add(this.settings.repo, selectedPaths)
+            await GitHelper.commit(this.settings.repo, message, selectedPaths)
+            if (push) {
+                await GitHelper.push(this.settings.repo, this.settings.repoBranch)
+            }
+        } catch (error) {
+            console.error('Git operation failed:', error)
+            throw new Error(`Git operation failed: ${(error as Error).message}`)
+        }
+    }
+
+    async explainPublishingDecision(file: TFile) {
+        const metadata = this.app.metadataCache.getFileCache(file)
+        if (!metadata) {
+            new Notice(`No metadata available for ${file.path}.`)
+            return
+        }
+        try {
+            new ExplanationModal(this.app, file, await this.getPublishingDecision(file, metadata)).open()
+        } catch (error) {
+            console.error(`Error explaining publishability for ${file.path}:`, error)
+            new FailureModal(this.app, error as Error, this.settings.repo).open()
+        }
+    }
+
+    // Evaluates the criterion for a note and then applies the same rules as collectPublishableFiles,
+    // recording each rule that changes whether the note is published
+    async getPublishingDecision(file: TFile, metadata: CachedMetadata): Promise<PublishingDecision> {
+        await this.settings.criterion.prepare(this.createCriterionContext(this.app.vault.getMarkdownFiles()))
+        const content = await this.app.vault.read(file)
+        const trace = this.settings.criterion.explain(file, content, metadata)
+        const reasons: string[] = []
+        let published = trace.result === true
+
+        if (published && getMarkerFileNames(this.settings.criterion).has(file.name)) {
+            published = false
+            reasons.push(`${file.name} is the marker file of an Inherited criterion and is not published itself.`)
+        }
+        if (!published && this.settings.extraFilePatterns.trim() && matchesGlobPatterns(this.settings.extraFilePatterns, file.path.replace(/\\/g, '/'))) {
+            published = true
+            reasons.push('The extra file patterns include it.')
+        }
+        if (published) {
+            const ignoreFile = (await loadPublishIgnoreRules(this.app.vault.adapter, [file.path])).getExcludingFile(file.path)
+            if (ignoreFile !== null) {
+                published = false
+                reasons.push(`${ignoreFile} excludes it.`)
+            }
+        }
+        return { trace, published, reasons }
+    }
+
+    // Returns the notes that a criterion matches, e.g. for previewing a criterion before it is saved
+    async getMatchingNotes(criterion: Criterion): Promise<TFile[]> {
+        const markdownFiles = this.app.vault.getMarkdownFiles()
+        await criterion.prepare(this.createCriterionContext(markdownFiles))
+        return filterAsync(markdownFiles, file => this.evaluateCriterion(criterion, file))
+    }
+
     async filterPublishableFiles(files: TFile[]): Promise<TFile[]> {
+        await this.settings.criterion.prepare(this.createCriterionContext(this.app.vault.getMarkdownFiles()))
         return filterAsync(files, file => this.isFilePublishable(file))
     }
 
+    // Evaluates the publishing criterion for a single note. Criteria such as Inherited and LinkGraph
+    // depend on other notes, so the criterion is prepared with the whole vault first.
+    private async matchesPublishingCriterion(file: TFile): Promise<boolean> {
+        await this.settings.criterion.prepare(this.createCriterionContext(this.app.vault.getMarkdownFiles()))
+        return this.isFilePublishable(file)
+    }
+
+    private createCriterionContext(files: TFile[]): CriterionContext {
+        return {
+            files,
+            resolvedLinks: this.app.metadataCache.resolvedLinks,
+            getMetadata: (file) => this.app.metadataCache.getFileCache(file),
+            evaluate: (criterion, file) => this.evaluateCriterion(criterion, file),
+        }
+    }
+
     async isFilePublishable(file: TFile): Promise<boolean> {
+        if (getMarkerFileNames(this.settings.criterion).has(file.name)) return false
+        return this.evaluateCriterion(this.settings.criterion, file)
+    }
+
+    private async evaluateCriterion(criterion: Criterion, file: TFile): Promise<boolean> {
         try {
             const metadata = this.app.metadataCache.getFileCache(file)
             if (!metadata) {
                 return false
             }
+            // Evaluate on metadata first and read the note only if a content criterion has to run
+            try {
+                return criterion.evaluate(file, null, metadata)
+            } catch (error) {
+                if (!(error instanceof ContentNotLoadedError)) throw error
+            }
             const content = await this.app.vault.read(file)
-            return this.settings.criterion.evaluate(file, content, metadata)
+            return criterion.evaluate(file, content, metadata)
         } catch (error) {
             console.error(`Error evaluating publishability for ${file.path}:`, error)
             return false
         }
     }
 
+    /**
+     * Adds a step to the content transformation pipeline, after the built-in steps and those registered before.
+     * Intended for other plugins; returns a function that removes the step again, e.g. when that plugin unloads.
+     */
+    registerContentTransformer(transformer: ContentTransformer): () => void {
+        return this.contentPipeline.register(transformer)
+    }
+
+    private createPublishingService(): PublishingService {
+        return new PublishingService(this.app, this.settings.repo, this.settings.redaction, this.contentPipeline, this.settings.pathMapping, this.settings.protectedPaths, this.settings.links)
+    }
+
     onunload() {
         // Clean up any event listeners or resources here
     }
 
     async loadSettings() {
-        type SavedData = Partial<Omit<SelectivePublisherSettings, 'criterion'> & { criterion: import('./criterion').SerializedCriterion }>
-        const data = (await this.loadData()) as SavedData | null
-        this.settings = Object.assign({}, DEFAULT_SETTINGS)
+        const rawData: unknown = await this.loadData()
+        const { data, errors } = loadSettingsData(rawData)
+        this.settings = createDefaultSettings()
+        errors.push(...this.applySettingsData(data as SavedData))
+        if (errors.some(isCriterionError)) this.settings.criterion = createMatchNothingCriterion()
+
+        if (errors.length > 0) {
+            await this.handleInvalidSettings(rawData, errors)
+        }
+    }
 
-        if (data) {
-            if (data.criterion) this.settings.criterion = Criterion.deserialize(data.criterion)
-            if (data.repo) this.settings.repo = data.repo
-            if (data.repoBranch) this.settings.repoBranch = data.repoBranch
-            if (data.commitMessage) this.settings.commitMessage = data.commitMessage
-            if (data.showPreviewBeforePublishing !== undefined) {
-                this.settings.showPreviewBeforePublishing = data.showPreviewBeforePublishing
+    // Copies the given settings over the current ones and returns errors for settings that could not be applied
+    private applySettingsData(data: SavedData): SettingsValidationError[] {
+        const errors: SettingsValidationError[] = []
+        if (data.redaction) this.settings.redaction = { ...this.settings.redaction, ...data.redaction }
+        if (data.links) this.settings.links = { ...this.settings.links, ...data.links }
+        if (data.frontmatter) this.settings.frontmatter = { ...this.settings.frontmatter, ...data.frontmatter }
+        if (data.pathMapping) this.settings.pathMapping = { ...this.settings.pathMapping, ...data.pathMapping }
+        if (data.criterionDefinitions) this.settings.criterionDefinitions = data.criterionDefinitions
+        if (data.disabledTransformers) this.settings.disabledTransformers = data.disabledTransformers
+        if (data.criterion) {
+            try {
+                this.settings.criterion = Criterion.deserialize(data.criterion, this.getDeserializationContext())
+            } catch (error) {
+                errors.push(new SettingsValidationError('criterion', (error as Error).message))
             }
-            if (data.publishAttachments !== undefined) {
-                this.settings.publishAttachments = data.publishAttachments
+        }
+        if (data.repo) this.settings.repo = data.repo
+        if (data.repoBranch) this.settings.repoBranch = data.repoBranch
+        if (data.commitMessage) this.settings.commitMessage = data.commitMessage
+        if (data.showPreviewBeforePublishing !== undefined) {
+            this.settings.showPreviewBeforePublishing = data.showPreviewBeforePublishing
+        }
+        if (data.publishAttachments !== undefined) {
+            this.settings.publishAttachments = data.publishAttachments
+        }
+        if (data.extraFilePatterns !== undefined) {
+            this.settings.extraFilePatterns = data.extraFilePatterns
+        }
+        if (data.protectedPaths !== undefined) this.settings.protectedPaths = data.protectedPaths
+        if (data.settingsFile) this.settings.settingsFile = data.settingsFile
+        if (data.useSettingsFile !== undefined) this.settings.useSettingsFile = data.useSettingsFile
+        return errors
+    }
+
+    getSettingsFilePath(): string {
+        return normalizePath(this.settings.settingsFile)
+    }
+
+    // Reads the settings file and applies the settings in it. Settings that the file leaves out return to their
+    // defaults, except for the local settings and the criterion, as the default criterion matches most notes.
+    // Invalid settings are reported and left unchanged. Returns false if the file could not be read.
+    private async readSettingsFile(): Promise<boolean> {
+        const path = this.getSettingsFilePath()
+        let errors: SettingsValidationError[]
+        try {
+            if (!await this.app.vault.adapter.exists(path)) {
+                new Notice(`Settings file ${path} does not exist.`)
+                return false
             }
-            if (data.extraFilePatterns !== undefined) {
-                this.settings.extraFilePatterns = data.extraFilePatterns
+            const content = await this.app.vault.adapter.read(path)
+            if (content === this.settingsFileContent) return true
+            const result = loadSettingsData(parseSettingsFile(content, path))
+            errors = result.errors
+            const previous = this.settings
+            this.settings = { ...createDefaultSettings(), repo: previous.repo, settingsFile: previous.settingsFile, useSettingsFile: previous.useSettingsFile }
+            // The current criterion is resolved again, as the file may change the definitions it references
+            errors.push(...this.applySettingsData({ criterion: previous.criterion.serialize(), ...result.data as SavedData }))
+            for (const error of errors) {
+                // Paths such as criterion.criteria[1].matchMode start with the name of the setting
+                const key = error.path.split(/[.[]/)[0] as keyof SelectivePublisherSettings
+                if (key in previous) Object.assign(this.settings, { [key]: previous[key] })
             }
+        } catch (error) {
+            errors = [new SettingsValidationError('', `Failed to read ${path}: ${(error as Error).message}`)]
         }
+
+        this.settingsFileInvalid = errors.length > 0
+        if (errors.length > 0) {
+            errors.forEach(error => console.error(`Invalid setting in ${path}:`, error.message))
+            const details = errors.map(error => `- ${error.message}`).join('\n')
+            new Notice(`Some settings in ${path} are invalid and were not applied:\n${details}`, 0)
+        }
+        // Open sections of the settings tab still show the replaced settings
+        this.settingTab?.refresh()
+        return true
     }
 
-    async saveSettings() {
-        const data = {
+    // Applies the settings file in settings-file mode
+    async loadSettingsFile() {
+        if (await this.readSettingsFile()) {
+            this.publishingService = this.createPublishingService()
+        }
+    }
+
+    // Switches settings-file mode on or off. An existing settings file takes precedence over the current
+    // settings; otherwise it is created from them.
+    async setUseSettingsFile(useSettingsFile: boolean) {
+        this.settings.useSettingsFile = useSettingsFile
+        if (useSettingsFile && await this.app.vault.adapter.exists(this.getSettingsFilePath())) {
+            this.settingsFileContent = null
+            await this.loadSettingsFile()
+        } else {
+            this.settingsFileInvalid = false
+        }
+        await this.saveSettings()
+    }
+
+    async setSettingsFile(settingsFile: string) {
+        this.settings.settingsFile = settingsFile
+        await this.setUseSettingsFile(this.settings.useSettingsFile)
+    }
+
+    async importSettings() {
+        this.settingsFileContent = null
+        if (!await this.readSettingsFile()) return
+        await this.saveSettings()
+        new Notice(`Imported settings from ${this.getSettingsFilePath()}.`)
+    }
+
+    async exportSettings() {
+        try {
+            await this.writeSettingsFile()
+            this.settingsFileInvalid = false
+            new Notice(`Exported settings to ${this.getSettingsFilePath()}.`)
+        } catch (error) {
+            console.error('Failed to export settings:', error)
+            new Notice(`Failed to export settings: ${(error as Error).message}`)
+        }
+    }
+
+    private async writeSettingsFile() {
+        const path = this.getSettingsFilePath()
+        const content = formatSettingsFile(getSharedSettingsData(this.getSettingsData()), path)
+        this.settingsFileContent = content
+        await this.app.vault.adapter.write(path, content)
+    }
+
+    // Keeps a copy of settings that could not be read, since the next save overwrites data.json
+    private async handleInvalidSettings(rawData: unknown, errors: SettingsValidationError[]) {
+        errors.forEach(error => console.error('Invalid setting:', error.message))
+        const pluginDir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`
+        const backupPath = `${pluginDir}/data.backup-${new Date().toISOString().replace(/[:.]/g, '-')}.json`
+        let backupMessage: string
+        try {
+            await this.app.vault.adapter.write(backupPath, JSON.stringify(rawData, null, 2))
+            backupMessage = `The previous settings were saved to ${backupPath}.`
+        } catch (error) {
+            console.error('Failed to back up settings:', error)
+            backupMessage = 'The previous settings could not be backed up.'
+        }
+        const details = errors.map(error => `- ${error.message}`).join('\n')
+        const criterionMessage = errors.some(isCriterionError) ? '\nThe publishing criterion matches no notes until it is fixed.' : ''
+        new Notice(`Some settings are invalid and were reset to defaults:\n${details}${criterionMessage}\n${backupMessage}`, 0)
+    }
+
+    getDeserializationContext(definitions = this.settings.criterionDefinitions): DeserializationContext {
+        return { definitions }
+    }
+
+    // Replaces the criterion definitions and resolves references in the publishing criterion again.
+    // Throws without changing the settings if the definitions contain a reference cycle.
+    async setCriterionDefinitions(definitions: Record<string, SerializedCriterion>) {
+        const context = this.getDeserializationContext(definitions)
+        for (const name of Object.keys(definitions)) {
+            Criterion.deserialize({ type: 'Reference', name }, context)
+        }
+        this.settings.criterion = Criterion.deserialize(this.settings.criterion.serialize(), context)
+        this.settings.criterionDefinitions = definitions
+        await this.saveSettings()
+    }
+
+    async renameCriterionDefinition(oldName: string, newName: string) {
+        const definitions: Record<string, SerializedCriterion> = {}
+        for (const [name, definition] of Object.entries(this.settings.criterionDefinitions)) {
+            definitions[name === oldName ? newName : name] = renameCriterionReferences(definition, oldName, newName)
+        }
+        const context = this.getDeserializationContext(definitions)
+        this.settings.criterion = Criterion.deserialize(
+            renameCriterionReferences(this.settings.criterion.serialize(), oldName, newName), context)
+        this.settings.criterionDefinitions = definitions
+        await this.saveSettings()
+    }
+
+    private getSettingsData(): SettingsData {
+        return {
+            version: SETTINGS_VERSION,
             ...this.settings,
             criterion: this.settings.criterion.serialize(),
         }
-        await this.saveData(data)
+    }
+
+    async saveSettings() {
+        await this.saveData(this.getSettingsData())
+        // In settings-file mode, changes are written to the settings file unless it has unresolved errors
+        if (this.settings.useSettingsFile && !this.settingsFileInvalid) {
+            try {
+                await this.writeSettingsFile()
+            } catch (error) {
+                console.error('Failed to write settings file:', error)
+                new Notice(`Failed to write settings file: ${(error as Error).message}`)
+            }
+        }
         // Update service if repo path changed
-        this.publishingService = new PublishingService(this.app, this.settings.repo)
+        this.publishingService = this.createPublishingService()
     }
 }
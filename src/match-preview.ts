@@ -0,0 +1,110 @@
+import { TFile, SearchComponent, debounce } from 'obsidian'
+import { Criterion } from './criterion'
+
+export type MatchingNotesFinder = (criterion: Criterion) => Promise<TFile[]>
+
+// Files listed at most per list, to keep the modal responsive in large vaults
+const MAX_LISTED_FILES = 100
+
+/**
+ * Live preview of the notes that a criterion matches while it is edited,
+ * compared with the notes that the saved criterion matches.
+ */
+export class MatchPreview {
+    private savedPaths: Set<string> | null = null
+    private matchingPaths: string[] | null = null
+    private filter = ''
+    // Incremented for each evaluation so that results of outdated evaluations are discarded
+    private evaluationId = 0
+    private summaryEl: HTMLElement
+    private listEl: HTMLElement
+    private diffEl: HTMLElement
+
+    // Evaluates the criterion once editing pauses
+    readonly update = debounce((criterion: Criterion) => { void this.evaluate(criterion) }, 500, true)
+
+    constructor(container: HTMLElement, private findMatchingNotes: MatchingNotesFinder, savedCriterion: Criterion, criterion: Criterion) {
+        const previewEl = container.createDiv({ cls: 'sp-match-preview' })
+        this.summaryEl = previewEl.createDiv({ cls: 'sp-match-summary' })
+        new SearchComponent(previewEl)
+            .setPlaceholder('Filter matching notes')
+            .onChange((value) => {
+                this.filter = value.toLowerCase()
+                this.renderList()
+            })
+        this.listEl = previewEl.createEl('ul', { cls: 'sp-publish-preview-list sp-match-list' })
+        this.diffEl = previewEl.createDiv({ cls: 'sp-match-diff' })
+
+        this.findMatchingNotes(savedCriterion)
+            .then((files) => {
+                this.savedPaths = new Set(files.map(f => f.path))
+                this.renderDiff()
+            })
+            .catch((error) => console.error('Failed to evaluate the saved criterion:', error))
+        void this.evaluate(criterion)
+    }
+
+    // Discards pending and running evaluations
+    cancel() {
+        this.update.cancel()
+        this.evaluationId++
+    }
+
+    private async evaluate(criterion: Criterion) {
+        const id = ++this.evaluationId
+        this.summaryEl.setText('Counting matching notes...')
+        let files: TFile[]
+        try {
+            files = await this.findMatchingNotes(criterion)
+        } catch (error) {
+            if (id !== this.evaluationId) return
+            console.error('Failed to evaluate the criterion:', error)
+            this.summaryEl.setText(`Failed to evaluate the criterion: ${(error as Error).message}`)
+            return
+        }
+        if (id !== this.evaluationId) return
+
+        this.matchingPaths = files.map(f => f.path).sort((a, b) => a.localeCompare(b))
+        this.summaryEl.setText(this.matchingPaths.length === 1 ? '1 matching note' : `${this.matchingPaths.length} matching notes`)
+        this.renderList()
+        this.renderDiff()
+    }
+
+    private renderList() {
+        this.listEl.empty()
+        if (!this.matchingPaths) return
+        const paths = this.matchingPaths.filter(path => path.toLowerCase().includes(this.filter))
+        renderPaths(this.listEl, paths, '')
+    }
+
+    private renderDiff() {
+        this.diffEl.empty()
+        if (!this.savedPaths || !this.matchingPaths) return
+
+        const matching = new Set(this.matchingPaths)
+        const added = this.matchingPaths.filter(path => !this.savedPaths!.has(path))
+        const removed = [...this.savedPaths].filter(path => !matching.has(path)).sort((a, b) => a.localeCompare(b))
+        if (added.length === 0 && removed.length === 0) {
+            this.diffEl.createEl('p', { text: 'The same notes as with the saved criterion.', cls: 'sp-match-unchanged' })
+            return
+        }
+
+        if (added.length > 0) {
+            this.diffEl.createEl('h4', { text: `Newly published (${added.length})` })
+            renderPaths(this.diffEl.createEl('ul', { cls: 'sp-publish-preview-list' }), added, 'is-new')
+        }
+        if (removed.length > 0) {
+            this.diffEl.createEl('h4', { text: `Unpublished (${removed.length})` })
+            renderPaths(this.diffEl.createEl('ul', { cls: 'sp-publish-preview-list' }), removed, 'is-deleted')
+        }
+    }
+}
+
+function renderPaths(listEl: HTMLElement, paths: string[], cls: string) {
+    for (const path of paths.slice(0, MAX_LISTED_FILES)) {
+        listEl.createEl('li', { cls }).createSpan({ text: path, cls: 'sp-publish-path' })
+    }
+    if (paths.length > MAX_LISTED_FILES) {
+        listEl.createEl('li', { text: `and ${paths.length - MAX_LISTED_FILES} more`, cls: 'sp-match-more' })
+    }
+}
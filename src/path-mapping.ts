@@ -0,0 +1,138 @@
+import { CachedMetadata, TFile } from 'obsidian'
+import * as path from 'path'
+import { getFrontmatterValue, normalizeFolderPath } from './criterion'
+
+/**
+ * Mapping of vault paths to paths in the publishing repository, so that the repository does not have to
+ * mirror the vault layout and paths work in URLs.
+ *
+ * A note's path property (`publish-path` by default) takes precedence over all rules. Otherwise, files
+ * other than notes are moved to the attachment folder if one is set, and leading folders are renamed by
+ * the folder mappings. Finally, folder and file names are slugified if enabled.
+ */
+
+export interface PathMappingRules {
+    // One "vault folder: repository folder" pair per line; an empty repository folder strips the vault folder
+    folderMappings: string
+    slugify: boolean
+    // Folder that files other than notes are flattened into; empty to keep them in place
+    attachmentFolder: string
+    // Frontmatter key whose value overrides the repository path of a note; empty to disable
+    pathProperty: string
+}
+
+export const DEFAULT_PATH_MAPPING_RULES: PathMappingRules = {
+    folderMappings: '',
+    slugify: false,
+    attachmentFolder: '',
+    pathProperty: 'publish-path',
+}
+
+export class PathMappingError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'PathMappingError'
+    }
+}
+
+interface FolderMapping {
+    from: string
+    to: string
+}
+
+/**
+ * Parses folder mapping lines of the form `from: to`. Mappings of longer folders come first,
+ * so that they take precedence over mappings of their parent folders.
+ */
+export function parseFolderMappings(mappings: string): FolderMapping[] {
+    const result: FolderMapping[] = []
+    for (const line of mappings.split('\n')) {
+        const index = line.indexOf(':')
+        if (index === -1) continue
+        const from = normalizeFolderPath(line.slice(0, index))
+        if (from) result.push({ from, to: normalizeFolderPath(line.slice(index + 1)) })
+    }
+    return result.sort((a, b) => b.from.length - a.from.length)
+}
+
+export function slugifyPathSegment(segment: string): string {
+    const slug = segment.normalize('NFKD')
+        .replace(/\p{M}/gu, '')
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}._-]+/gu, '-')
+        .replace(/-+/g, '-')
+        .replace(/^-|-$/g, '')
+    return slug || segment
+}
+
+function slugifyPath(filePath: string): string {
+    const segments = filePath.split('/')
+    const name = segments.pop()!
+    const dotIndex = name.lastIndexOf('.')
+    const fileName = dotIndex > 0
+        ? `${slugifyPathSegment(name.slice(0, dotIndex))}${name.slice(dotIndex).toLowerCase()}`
+        : slugifyPathSegment(name)
+    return [...segments.map(slugifyPathSegment), fileName].join('/')
+}
+
+// Normalizes a repository path given in a note. Throws if it points outside of the repository.
+function normalizeRepoPath(value: string, sourcePath: string): string {
+    const normalized = path.posix.normalize(value.trim().replace(/\\/g, '/')).replace(/^\/+/, '')
+    if (normalized === '.' || normalized === '..' || normalized.startsWith('../')) {
+        throw new PathMappingError(`The publishing path "${value}" of ${sourcePath} is outside of the repository`)
+    }
+    return path.posix.extname(normalized) ? normalized : `${normalized}.md`
+}
+
+// Hidden files and folders, such as .git, .github or the publishing manifest, are never written by publishing
+// and are left out when the repository is cleaned up, so no file may be mapped into them
+function checkNotHidden(repoPath: string, sourcePath: string): string {
+    if (repoPath.split('/').some(segment => segment.startsWith('.'))) {
+        throw new PathMappingError(`The repository path ${repoPath} of ${sourcePath} is hidden`)
+    }
+    return repoPath
+}
+
+/**
+ * Returns the repository path of a vault file. Throws a PathMappingError for paths outside of the repository
+ * and for hidden paths.
+ */
+export function mapPath(file: TFile, metadata: CachedMetadata | null, rules: PathMappingRules): string {
+    if (file.extension === 'md' && rules.pathProperty.trim()) {
+        const override = getFrontmatterValue(metadata?.frontmatter, rules.pathProperty.trim())
+        if (typeof override === 'string' && override.trim()) return checkNotHidden(normalizeRepoPath(override, file.path), file.path)
+    }
+
+    let mapped = file.path
+    const attachmentFolder = normalizeFolderPath(rules.attachmentFolder)
+    if (file.extension !== 'md' && attachmentFolder) {
+        mapped = `${attachmentFolder}/${file.name}`
+    } else {
+        const mapping = parseFolderMappings(rules.folderMappings).find(m => file.path.startsWith(`${m.from}/`))
+        if (mapping) {
+            const rest = file.path.slice(mapping.from.length + 1)
+            mapped = mapping.to ? `${mapping.to}/${rest}` : rest
+        }
+    }
+    return checkNotHidden(rules.slugify ? slugifyPath(mapped) : mapped, file.path)
+}
+
+/**
+ * Maps the paths of all published files. Throws a PathMappingError if several files map to the same path.
+ */
+export function mapPaths(files: TFile[], getMetadata: (file: TFile) => CachedMetadata | null, rules: PathMappingRules): Map<string, string> {
+    const repoPaths = new Map<string, string>()
+    const sources = new Map<string, string>()
+    const conflicts: string[] = []
+    for (const file of files) {
+        const repoPath = mapPath(file, getMetadata(file), rules)
+        const other = sources.get(repoPath.toLowerCase())
+        if (other !== undefined) conflicts.push(`${other} and ${file.path} both map to ${repoPath}`)
+        sources.set(repoPath.toLowerCase(), file.path)
+        repoPaths.set(file.path, repoPath)
+    }
+    if (conflicts.length > 0) {
+        throw new PathMappingError(`Files map to the same repository path:\n${conflicts.join('\n')}`)
+    }
+    return repoPaths
+}
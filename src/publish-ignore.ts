@@ -0,0 +1,76 @@
+import { DataAdapter } from 'obsidian'
+import { parseGlobLine, matchesGlob } from './criterion'
+
+/**
+ * `.publishignore` files exclude vault files from publishing, like `.gitignore` files.
+ *
+ * Patterns use the same syntax as the glob settings (# comments, ! negation, last match wins) and are matched
+ * against paths relative to the folder of the ignore file. Ignore files in subfolders are applied after those
+ * in their parent folders, so they can re-include files with negated patterns.
+ */
+
+export const PUBLISH_IGNORE_FILE_NAME = '.publishignore'
+
+export interface PublishIgnoreFile {
+    // Folder the ignore file applies to; the vault root is the empty string
+    folder: string
+    path: string
+    patterns: string
+}
+
+export interface IgnoredFile {
+    path: string
+    // Path of the ignore file that excluded the file
+    ignoreFile: string
+}
+
+export class PublishIgnoreRules {
+    private files: PublishIgnoreFile[]
+
+    constructor(files: PublishIgnoreFile[]) {
+        // Parent folders before their subfolders
+        this.files = [...files].sort((a, b) => a.folder.split('/').length - b.folder.split('/').length || a.folder.localeCompare(b.folder))
+    }
+
+    /**
+     * Returns the path of the ignore file that excludes the given vault path, or null if it is not excluded.
+     */
+    getExcludingFile(path: string): string | null {
+        let excludingFile: string | null = null
+        for (const file of this.files) {
+            if (file.folder !== '' && !path.startsWith(file.folder + '/')) continue
+            const relativePath = file.folder === '' ? path : path.slice(file.folder.length + 1)
+            for (const line of file.patterns.split('\n')) {
+                const { negated, glob } = parseGlobLine(line)
+                if (glob.length > 0 && matchesGlob(glob, relativePath)) {
+                    excludingFile = negated ? null : file.path
+                }
+            }
+        }
+        return excludingFile
+    }
+}
+
+function getAncestorFolders(path: string): string[] {
+    const parts = path.split('/').slice(0, -1)
+    return ['', ...parts.map((_, i) => parts.slice(0, i + 1).join('/'))]
+}
+
+/**
+ * Reads the ignore files in the folders containing the given vault paths.
+ * Ignore files are hidden from the vault index, so they are read through the adapter.
+ */
+export async function loadPublishIgnoreRules(adapter: DataAdapter, paths: string[]): Promise<PublishIgnoreRules> {
+    const folders = new Set(paths.flatMap(getAncestorFolders))
+    const files = await Promise.all([...folders].map(async (folder): Promise<PublishIgnoreFile | null> => {
+        const path = folder === '' ? PUBLISH_IGNORE_FILE_NAME : `${folder}/${PUBLISH_IGNORE_FILE_NAME}`
+        try {
+            if (!await adapter.exists(path)) return null
+            return { folder, path, patterns: await adapter.read(path) }
+        } catch (error) {
+            console.error(`Failed to read ${path}:`, error)
+            return null
+        }
+    }))
+    return new PublishIgnoreRules(files.filter((file): file is PublishIgnoreFile => file !== null))
+}
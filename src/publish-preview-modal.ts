@@ -1,10 +1,24 @@
-import { App, Modal, ButtonComponent } from 'obsidian'
-import { FileWithStatus, FileUpdateStatus } from './publishing-service'
+import { App, Modal, ButtonComponent, Notice } from 'obsidian'
+import { FileWithStatus, FileUpdateStatus, FileComparison, MANIFEST_FILE_NAME } from './publishing-service'
+import { IgnoredFile } from './publish-ignore'
+import { FileDiffModal } from './file-diff-modal'
 
 export type PublishAction = 'publish' | 'commit'
 
+// Groups of changed files, which can be selected for publishing separately
+const CHANGE_GROUPS: [FileUpdateStatus, string][] = [
+    [FileUpdateStatus.New, 'New files'],
+    [FileUpdateStatus.Modified, 'Modified files'],
+    [FileUpdateStatus.Deleted, 'Deleted files'],
+]
+
 export class PublishPreviewModal extends Modal {
-    constructor(app: App, private fileStatuses: FileWithStatus[], private hasUncommittedChanges: boolean, private onAction: (action: PublishAction) => Promise<void>) {
+    // Changed files to publish; all of them initially
+    private selectedFiles = new Set<FileWithStatus>()
+    private actionButtons: ButtonComponent[] = []
+
+    // onAction receives the selected files, or no files if all changes are selected
+    constructor(app: App, private fileStatuses: FileWithStatus[], private ignoredFiles: IgnoredFile[], private hasUncommittedChanges: boolean, private hasManifest: boolean, private onAction: (action: PublishAction, selectedFiles?: FileWithStatus[]) => Promise<void>, private compareFile: (file: FileWithStatus) => Promise<FileComparison>) {
         super(app)
     }
 
@@ -15,37 +29,55 @@ export class PublishPreviewModal extends Modal {
         contentEl.empty()
 
         const sortedFiles = [...this.fileStatuses].sort((a, b) => a.path.localeCompare(b.path))
-        const changed = sortedFiles.filter(f => f.status !== FileUpdateStatus.Unmodified)
+        const unmanaged = sortedFiles.filter(f => f.status === FileUpdateStatus.Unmanaged)
+        const changed = sortedFiles.filter(f => f.status !== FileUpdateStatus.Unmodified && f.status !== FileUpdateStatus.Unmanaged)
         const unmodified = sortedFiles.filter(f => f.status === FileUpdateStatus.Unmodified)
+        this.selectedFiles = new Set(changed)
+        this.actionButtons = []
 
-        if (sortedFiles.length === 0 && !this.hasUncommittedChanges) {
+        if (changed.length + unmodified.length === 0 && !this.hasUncommittedChanges) {
             contentEl.createEl('p', { text: 'No files match the current publishing criteria and no files to unpublish.' })
         } else {
             if (changed.length === 0 && !this.hasUncommittedChanges) {
                 contentEl.createEl('p', { text: 'Published files are up to date. No changes to publish.' })
             } else {
-                this.renderFileList(contentEl, 'Changed files', changed)
+                for (const [status, title] of CHANGE_GROUPS) {
+                    this.renderFileList(contentEl, title, changed.filter(f => f.status === status), true, true)
+                }
             }
             this.renderFileList(contentEl, 'Unmodified published files', unmodified, true)
         }
+        // Files in the repository that publishing leaves alone, because they were not published by the plugin or are protected
+        this.renderFileList(contentEl, 'Other files in the repository', unmanaged, true)
+        if (!this.hasManifest && unmanaged.length > 0) {
+            contentEl.createEl('p', {
+                text: `The repository has no ${MANIFEST_FILE_NAME} yet, e.g. because it was published by an earlier version of the plugin. `
+                    + 'Publishing adopts the files that match the publishing criteria, so that they are deleted once they are no longer published. '
+                    + 'The other files are left alone and have to be deleted by hand if they were published before.',
+                cls: 'sp-publish-preview-note',
+            })
+        }
+        this.renderUnpublishedLinks(contentEl)
+        this.renderIgnoredFiles(contentEl)
 
         const btnContainer = modalEl.createDiv('modal-button-container')
 
         if (changed.length > 0 || this.hasUncommittedChanges) {
-            new ButtonComponent(btnContainer)
+            const getSelection = () => this.selectedFiles.size === changed.length ? undefined : [...this.selectedFiles]
+            this.actionButtons.push(new ButtonComponent(btnContainer)
                 .setButtonText('Publish')
                 .setCta()
                 .onClick(async () => {
                     this.close()
-                    await this.onAction('publish')
-                })
+                    await this.onAction('publish', getSelection())
+                }))
 
-            new ButtonComponent(btnContainer)
+            this.actionButtons.push(new ButtonComponent(btnContainer)
                 .setButtonText('Commit')
                 .onClick(async () => {
                     this.close()
-                    await this.onAction('commit')
-                })
+                    await this.onAction('commit', getSelection())
+                }))
         }
 
         new ButtonComponent(btnContainer)
@@ -55,21 +87,101 @@ export class PublishPreviewModal extends Modal {
             })
     }
 
-    private renderFileList(container: HTMLElement, title: string, files: FileWithStatus[], hideBadge = false) {
+    // Changes to selectable files can be reviewed and left out of publishing
+    private renderFileList(container: HTMLElement, title: string, files: FileWithStatus[], hideBadge = false, selectable = false) {
         if (files.length === 0) return
 
-        container.createEl('h4', { text: `${title} (${files.length})` })
+        const headingEl = container.createEl('h4', { text: `${title} (${files.length})`, cls: 'sp-publish-preview-heading' })
         const listEl = container.createEl('ul', { cls: 'sp-publish-preview-list' })
+        const checkboxes = new Map<FileWithStatus, HTMLInputElement>()
+        if (selectable) {
+            const setSelected = (selected: boolean) => {
+                for (const [file, checkbox] of checkboxes) {
+                    checkbox.checked = selected
+                    this.setFileSelected(file, selected)
+                }
+            }
+            const selectionEl = headingEl.createSpan({ cls: 'sp-publish-selection' })
+            selectionEl.createEl('a', { text: 'All' }).addEventListener('click', () => setSelected(true))
+            selectionEl.createEl('a', { text: 'None' }).addEventListener('click', () => setSelected(false))
+        }
 
-        for (const { path, status } of files) {
+        for (const file of files) {
+            const { path, repoPath, status, redactionCount } = file
             const li = listEl.createEl('li', { cls: `is-${status}` })
-            li.createSpan({ text: path, cls: 'sp-publish-path' })
+            if (selectable) {
+                const checkbox = li.createEl('input', { type: 'checkbox', cls: 'sp-publish-checkbox' })
+                checkbox.checked = this.selectedFiles.has(file)
+                checkbox.addEventListener('click', (event) => event.stopPropagation())
+                checkbox.addEventListener('change', () => this.setFileSelected(file, checkbox.checked))
+                checkboxes.set(file, checkbox)
+                li.addClass('is-clickable')
+                li.setAttribute('aria-label', 'Show changes')
+                li.addEventListener('click', () => void this.showDiff(file))
+            }
+            li.createSpan({ text: repoPath ? `${path} → ${repoPath}` : path, cls: 'sp-publish-path' })
+            if (redactionCount) {
+                const label = redactionCount === 1 ? '1 section redacted' : `${redactionCount} sections redacted`
+                li.createSpan({ text: label, cls: 'sp-publish-badge sp-redaction-badge' })
+            }
             if (!hideBadge) {
                 li.createSpan({ text: status, cls: 'sp-publish-badge' })
             }
         }
     }
 
+    private setFileSelected(file: FileWithStatus, selected: boolean) {
+        if (selected) {
+            this.selectedFiles.add(file)
+        } else {
+            this.selectedFiles.delete(file)
+        }
+        // There is nothing to publish without selected changes
+        for (const button of this.actionButtons) button.setDisabled(this.selectedFiles.size === 0)
+    }
+
+    private async showDiff(file: FileWithStatus) {
+        try {
+            const comparison = await this.compareFile(file)
+            new FileDiffModal(this.app, file.repoPath ?? file.path, comparison).open()
+        } catch (error) {
+            console.error(`Failed to compare ${file.path}:`, error)
+            new Notice(`Failed to compare ${file.path}: ${(error as Error).message}`)
+        }
+    }
+
+    private renderUnpublishedLinks(container: HTMLElement) {
+        const files = this.fileStatuses
+            .filter(f => f.unpublishedLinks && f.unpublishedLinks.length > 0)
+            .sort((a, b) => a.path.localeCompare(b.path))
+        if (files.length === 0) return
+
+        const linkCount = files.reduce((count, f) => count + f.unpublishedLinks!.length, 0)
+        container.createEl('h4', { text: `Links to unpublished notes (${linkCount})` })
+        const listEl = container.createEl('ul', { cls: 'sp-publish-preview-list' })
+
+        for (const { path, unpublishedLinks } of files) {
+            for (const link of unpublishedLinks!) {
+                const li = listEl.createEl('li', { cls: 'is-unpublished-link' })
+                li.createSpan({ text: path, cls: 'sp-publish-path' })
+                li.createSpan({ text: link, cls: 'sp-publish-badge sp-link-badge' })
+            }
+        }
+    }
+
+    private renderIgnoredFiles(container: HTMLElement) {
+        if (this.ignoredFiles.length === 0) return
+
+        container.createEl('h4', { text: `Excluded by ignore files (${this.ignoredFiles.length})` })
+        const listEl = container.createEl('ul', { cls: 'sp-publish-preview-list' })
+
+        for (const { path, ignoreFile } of [...this.ignoredFiles].sort((a, b) => a.path.localeCompare(b.path))) {
+            const li = listEl.createEl('li', { cls: 'is-ignored' })
+            li.createSpan({ text: path, cls: 'sp-publish-path' })
+            li.createSpan({ text: ignoreFile, cls: 'sp-publish-badge sp-ignore-badge' })
+        }
+    }
+
     onClose() {
         this.contentEl.empty()
     }
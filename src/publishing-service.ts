@@ -2,56 +2,235 @@ import { App, TFile } from 'obsidian'
 import * as fs from 'fs/promises'
 import * as path from 'path'
 import { Buffer } from "buffer"
+import { RedactionRules, redactContent, hasRedactionRules, createRedactionTransformer, REDACTION_TRANSFORMER_ID } from './redaction'
+import { ContentPipeline } from './content-pipeline'
+import { transformLinks, LinkRules, DEFAULT_LINK_RULES, LINKS_TRANSFORMER_ID } from './links'
+import { PathMappingRules, DEFAULT_PATH_MAPPING_RULES, mapPath, mapPaths } from './path-mapping'
+import { matchesGlobPatterns } from './criterion'
+
+// File in the repository that lists the files published by the plugin. Only these files are ever deleted.
+export const MANIFEST_FILE_NAME = '.selective-publisher.json'
+
+interface Manifest {
+    files: string[]
+}
 
 export enum FileUpdateStatus {
     New = 'new',
     Modified = 'modified',
     Unmodified = 'unmodified',
     Deleted = 'deleted',
+    // In the repository, but not published by the plugin or protected, so it is left alone
+    Unmanaged = 'unmanaged',
 }
 
 export interface FileWithStatus {
+    // Vault path, or repository path for deleted files
     path: string
+    // Repository path if it differs from the vault path
+    repoPath?: string
     status: FileUpdateStatus
+    // Number of private sections removed from the note on publishing
+    redactionCount?: number
+    // Links in the note to notes and files that are not published, which are replaced on publishing
+    unpublishedLinks?: string[]
+}
+
+export interface FileComparison {
+    // Content of the file in the repository, or null if it does not exist
+    repoContent: Buffer | null
+    // Content that publishing writes, or null for files that are not published
+    content: Buffer | null
+}
+
+// Content of a file as it is written to the repository, with what the pipeline removes or replaces in notes
+interface RenderedFile {
+    content: Buffer
+    redactionCount?: number
+    unpublishedLinks?: string[]
 }
 
 export class PublishingService {
-    constructor(private app: App, private repoPath: string) { }
+    private pipeline: ContentPipeline
+    // Rendered content of changed files by the list of publishable files they were rendered with, so that reviewing
+    // them in the preview does not render them again. Unchanged files are not kept, to save memory in large vaults.
+    private renderedFiles = new WeakMap<readonly TFile[], Map<string, Buffer>>()
+
+    // Without a pipeline, notes are only redacted. protectedPaths are glob patterns (one per line)
+    // of repository paths that are never deleted. The link rules should be those of the pipeline's links step.
+    constructor(private app: App, private repoPath: string, private redactionRules: RedactionRules, pipeline?: ContentPipeline, private pathMappingRules: PathMappingRules = DEFAULT_PATH_MAPPING_RULES, private protectedPaths = '', private linkRules: LinkRules = DEFAULT_LINK_RULES) {
+        if (pipeline) {
+            this.pipeline = pipeline
+        } else {
+            this.pipeline = new ContentPipeline()
+            this.pipeline.register(createRedactionTransformer(() => redactionRules))
+        }
+    }
 
     public async getPublishingStatuses(publishableFiles: TFile[]): Promise<FileWithStatus[]> {
-        // Get statuses for publishable files
-        const fileStatuses: FileWithStatus[] = await Promise.all(
-            publishableFiles.map(async (file) => ({
-                path: file.path,
-                status: await this.getFileStatus(file, path.join(this.repoPath, file.path)),
+        const repoPaths = this.mapPaths(publishableFiles)
+        const fileStatuses = await this.getFileStatuses(publishableFiles, publishableFiles)
+
+        // Files in the repo that are not publishable are deleted if the plugin published them, otherwise they are left alone
+        const mappedPaths = new Set(repoPaths.values())
+        const managedPaths = await this.readManifest()
+        const publishedPaths = await this.getPublishedFiles()
+        const otherStatuses: FileWithStatus[] = publishedPaths
+            .filter(publishedPath => !mappedPaths.has(publishedPath))
+            .map(publishedPath => ({
+                path: publishedPath,
+                status: this.isDeletable(publishedPath, managedPaths) ? FileUpdateStatus.Deleted : FileUpdateStatus.Unmanaged,
             }))
+
+        return [...fileStatuses, ...otherStatuses]
+    }
+
+    // Returns the statuses of some of the publishable files, e.g. for publishing a single note
+    // Each file is read and rendered once for its status, redactions and links
+    public async getFileStatuses(files: TFile[], publishableFiles: TFile[]): Promise<FileWithStatus[]> {
+        const repoPaths = this.mapPaths(publishableFiles)
+        const renderedFiles = this.renderedFiles.get(publishableFiles) ?? new Map<string, Buffer>()
+        this.renderedFiles.set(publishableFiles, renderedFiles)
+        return Promise.all(
+            files.map(async (file) => {
+                const repoPath = repoPaths.get(file.path)!
+                const existing = await this.readRepoFile(repoPath)
+                // Notes are rendered for their redactions and links; other files only to compare them
+                const rendered = existing || file.extension === 'md' ? await this.renderFile(file, publishableFiles, repoPaths) : null
+                const status = this.getFileStatus(rendered, existing)
+                if (rendered && status !== FileUpdateStatus.Unmodified) renderedFiles.set(file.path, rendered.content)
+                return {
+                    path: file.path,
+                    repoPath: repoPath !== file.path ? repoPath : undefined,
+                    status,
+                    redactionCount: rendered?.redactionCount,
+                    unpublishedLinks: rendered?.unpublishedLinks,
+                }
+            })
         )
+    }
 
-        // Find files that would be deleted (exist in repo but not publishable)
-        const publishablePaths = new Set(publishableFiles.map(f => f.path))
-        const publishedPaths = await this.getPublishedFiles()
-        const deletedStatuses: FileWithStatus[] = publishedPaths
-            .filter(publishedPath => !publishablePaths.has(publishedPath))
-            .map(publishedPath => ({ path: publishedPath, status: FileUpdateStatus.Deleted }))
+    // Returns the statuses of files that are not publishable and are in the repository, e.g. for unpublishing
+    // a single note. The files are deleted if the plugin published them.
+    public async getRemovalStatuses(files: TFile[]): Promise<FileWithStatus[]> {
+        const managedPaths = await this.readManifest()
+        const statuses: FileWithStatus[] = []
+        for (const file of files) {
+            const repoPath = mapPath(file, this.app.metadataCache.getFileCache(file), this.pathMappingRules)
+            try {
+                await fs.access(path.join(this.repoPath, repoPath))
+            } catch {
+                continue
+            }
+            statuses.push({
+                path: repoPath,
+                status: this.isDeletable(repoPath, managedPaths) ? FileUpdateStatus.Deleted : FileUpdateStatus.Unmanaged,
+            })
+        }
+        return statuses
+    }
+
+    /**
+     * Writes the publishable files to the repository and deletes the files that the plugin published and that are
+     * no longer publishable. If files returned by getPublishingStatuses are selected, only those are written or
+     * deleted. Notes are transformed with all publishable files either way, e.g. for rewriting links.
+     */
+    public async updateFilesInRepo(publishableFiles: TFile[], selectedFiles?: FileWithStatus[]): Promise<void> {
+        const repoPaths = this.mapPaths(publishableFiles)
+        const mappedPaths = new Set(repoPaths.values())
+        const managedPaths = await this.readManifest()
+
+        const selectedPaths = selectedFiles && new Set(selectedFiles.filter(f => f.status !== FileUpdateStatus.Deleted).map(f => f.path))
+        const pathsToDelete = selectedFiles && new Set(selectedFiles.filter(f => f.status === FileUpdateStatus.Deleted).map(f => f.path))
+        const filesToWrite = selectedPaths ? publishableFiles.filter(file => selectedPaths.has(file.path)) : publishableFiles
+        await this.cleanupRepo(mappedPaths, managedPaths, pathsToDelete)
+        await this.copyFilesToRepo(filesToWrite, publishableFiles, repoPaths)
+
+        // Files that are not selected keep their entries, so that deletions that were left out are still applied later.
+        // Publishable files that are already in the repository are adopted even if they are not selected, so that
+        // repositories published without a manifest become managed with the first publish.
+        const manifestPaths = pathsToDelete
+            ? [...[...managedPaths].filter(p => !pathsToDelete.has(p)), ...await this.filterExistingPaths([...mappedPaths])]
+            : mappedPaths
+        await this.writeManifest(new Set(manifestPaths))
+    }
 
-        return [...fileStatuses, ...deletedStatuses]
+    // Returns both versions of a file returned by getPublishingStatuses, for reviewing the changes before publishing
+    public async compareFile(fileStatus: FileWithStatus, publishableFiles: TFile[]): Promise<FileComparison> {
+        const repoPaths = this.mapPaths(publishableFiles)
+        const isPublished = fileStatus.status !== FileUpdateStatus.Deleted && fileStatus.status !== FileUpdateStatus.Unmanaged
+        const file = isPublished ? publishableFiles.find(f => f.path === fileStatus.path) : undefined
+        if (!file) return { repoContent: await this.readRepoFile(fileStatus.path), content: null }
+        return {
+            repoContent: await this.readRepoFile(repoPaths.get(file.path)!),
+            content: this.renderedFiles.get(publishableFiles)?.get(file.path) ?? (await this.renderFile(file, publishableFiles, repoPaths)).content,
+        }
+    }
+
+    // Repositories published by earlier versions of the plugin have no manifest until they are published again
+    public async hasManifest(): Promise<boolean> {
+        return (await this.readRepoFile(MANIFEST_FILE_NAME)) !== null
+    }
+
+    // Returns the repository paths of the files by vault path
+    private mapPaths(files: TFile[]): Map<string, string> {
+        return mapPaths(files, file => this.app.metadataCache.getFileCache(file), this.pathMappingRules)
     }
 
-    public async updateFilesInRepo(publishableFiles: TFile[]): Promise<void> {
-        await this.cleanupRepo(publishableFiles)
-        await this.copyFilesToRepo(publishableFiles)
+    // Compares the content that publishing would write with the file in the repository,
+    // as modification times say nothing about the content after a pull or a fresh clone
+    private getFileStatus(rendered: RenderedFile | null, existing: Buffer | null): FileUpdateStatus {
+        if (!existing || !rendered) return FileUpdateStatus.New
+        return rendered.content.equals(existing) ? FileUpdateStatus.Unmodified : FileUpdateStatus.Modified
     }
 
-    private async getFileStatus(srcFile: TFile, destPath: string): Promise<FileUpdateStatus> {
+    // Returns the content of a file in the repository, or null if it does not exist
+    private async readRepoFile(relativePath: string): Promise<Buffer | null> {
         try {
-            const stats = await fs.stat(destPath)
-            if (srcFile.stat.mtime > stats.mtimeMs) {  // Obsidian mtime is in ms
-                return FileUpdateStatus.Modified
-            }
+            return await fs.readFile(path.join(this.repoPath, relativePath))
         } catch {
-            return FileUpdateStatus.New
+            return null
         }
-        return FileUpdateStatus.Unmodified
+    }
+
+    private async filterExistingPaths(relativePaths: string[]): Promise<string[]> {
+        const exists = await Promise.all(relativePaths.map(async (relativePath) => {
+            try {
+                await fs.access(path.join(this.repoPath, relativePath))
+                return true
+            } catch {
+                return false
+            }
+        }))
+        return relativePaths.filter((_, index) => exists[index])
+    }
+
+    private isDeletable(repoPath: string, managedPaths: Set<string>): boolean {
+        return managedPaths.has(repoPath) && !matchesGlobPatterns(this.protectedPaths, repoPath)
+    }
+
+    // Returns the repository paths that the plugin published last time. Without a manifest, e.g. in repositories
+    // published by earlier versions, no files are managed. Throws if the manifest is invalid.
+    private async readManifest(): Promise<Set<string>> {
+        const content = await this.readRepoFile(MANIFEST_FILE_NAME)
+        if (!content) return new Set()
+        try {
+            const manifest = JSON.parse(content.toString('utf8')) as Partial<Manifest>
+            if (!Array.isArray(manifest.files) || !manifest.files.every(file => typeof file === 'string')) {
+                throw new Error('"files" must be a list of paths')
+            }
+            return new Set(manifest.files)
+        } catch (error) {
+            throw new Error(`The publishing manifest ${MANIFEST_FILE_NAME} in the repository is invalid: ${(error as Error).message}`)
+        }
+    }
+
+    private async writeManifest(managedPaths: Set<string>) {
+        const manifest: Manifest = { files: [...managedPaths].sort() }
+        const content = Buffer.from(`${JSON.stringify(manifest, null, 2)}\n`)
+        const existing = await this.readRepoFile(MANIFEST_FILE_NAME)
+        if (existing && content.equals(existing)) return
+        await fs.writeFile(path.join(this.repoPath, MANIFEST_FILE_NAME), content)
     }
 
     private async getPublishedFiles(): Promise<string[]> {
@@ -82,20 +261,47 @@ export class PublishingService {
         }
     }
 
-    private static processContent(content: string, file: TFile): string {
-        // Here could be a transformation for publishing if needed
-        return content
+    // Returns the content of a file as it is written to the repository: notes pass through the pipeline,
+    // other files are copied as they are
+    private async renderFile(file: TFile, publishedFiles: TFile[], repoPaths: Map<string, string>): Promise<RenderedFile> {
+        if (file.extension !== 'md') return { content: Buffer.from(await this.app.vault.readBinary(file)) }
+
+        const content = await this.app.vault.read(file)
+        let redactionCount: number | undefined
+        let unpublishedLinks: string[] | undefined
+        // Redactions and links are counted on the input of their steps, so that e.g. links in private sections are not listed
+        const transformed = await this.processContent(content, file, publishedFiles, repoPaths, (transformerId, input) => {
+            if (transformerId === REDACTION_TRANSFORMER_ID && hasRedactionRules(this.redactionRules)) {
+                redactionCount = redactContent(input, this.redactionRules).redactionCount
+            } else if (transformerId === LINKS_TRANSFORMER_ID) {
+                const resolve = (linkpath: string, sourcePath: string) => this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath)
+                unpublishedLinks = transformLinks(input, file.path, resolve, repoPaths, this.linkRules).unpublishedLinks
+            }
+        })
+        return { content: Buffer.from(transformed), redactionCount, unpublishedLinks }
+    }
+
+    private processContent(content: string, file: TFile, publishedFiles: TFile[], repoPaths: Map<string, string>, inspect?: (transformerId: string, input: string) => void): Promise<string> {
+        return this.pipeline.transform(content, {
+            app: this.app,
+            file,
+            metadata: this.app.metadataCache.getFileCache(file),
+            publishedFiles,
+            publishedPaths: new Set(repoPaths.keys()),
+            repoPaths,
+        }, inspect)
     }
 
-    private async cleanupRepo(publishableFiles: TFile[]) {
+    // Removes files that the plugin published from the repository if they are not at one of the given repository paths.
+    // If pathsToDelete is given, other files are kept.
+    private async cleanupRepo(mappedPaths: Set<string>, managedPaths: Set<string>, pathsToDelete?: Set<string>) {
         try {
-            // Get set of paths that should be published
-            const publishablePaths = new Set(publishableFiles.map(f => f.path))
             const publishedPaths = await this.getPublishedFiles()
 
             // Remove files that shouldn't be there
             for (const publishedPath of publishedPaths) {
-                if (!publishablePaths.has(publishedPath)) {
+                if (pathsToDelete && !pathsToDelete.has(publishedPath)) continue
+                if (!mappedPaths.has(publishedPath) && this.isDeletable(publishedPath, managedPaths)) {
                     await this.deleteFileFromRepo(publishedPath)
                 }
             }
@@ -104,26 +310,23 @@ export class PublishingService {
         }
     }
 
-    private async copyFilesToRepo(files: TFile[]) {
+    private async copyFilesToRepo(files: TFile[], publishedFiles: TFile[], repoPaths: Map<string, string>) {
         for (const file of files) {
-            await this.copyFileToRepo(file)
+            await this.copyFileToRepo(file, publishedFiles, repoPaths)
         }
     }
 
-    private async copyFileToRepo(file: TFile) {
-        const destPath = path.join(this.repoPath, file.path)
-        await fs.mkdir(path.dirname(destPath), { recursive: true })
+    // Writes a file to the repository unless the repository already has the same content,
+    // so that publishing without changes leaves the working tree untouched
+    private async copyFileToRepo(file: TFile, publishedFiles: TFile[], repoPaths: Map<string, string>) {
+        const repoPath = repoPaths.get(file.path)!
+        const { content } = await this.renderFile(file, publishedFiles, repoPaths)
+        const existing = await this.readRepoFile(repoPath)
+        if (existing && content.equals(existing)) return
 
-        if (file.extension === 'md') {
-            const content = await this.app.vault.read(file)
-            // Process content (modify links, etc. if needed)
-            const processedContent = PublishingService.processContent(content, file)
-            await fs.writeFile(destPath, processedContent)
-        } else {
-            // Support binary files
-            const buffer = await this.app.vault.readBinary(file)
-            await fs.writeFile(destPath, Buffer.from(buffer))
-        }
+        const destPath = path.join(this.repoPath, repoPath)
+        await fs.mkdir(path.dirname(destPath), { recursive: true })
+        await fs.writeFile(destPath, content)
     }
 
     private async deleteFileFromRepo(relativePath: string) {
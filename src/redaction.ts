@@ -0,0 +1,164 @@
+import { ContentTransformer } from './content-pipeline'
+
+/**
+ * Rules for removing private sections from notes when they are published.
+ */
+export interface RedactionRules {
+    // Remove Obsidian comments (%% ... %%)
+    removeComments: boolean
+    // Remove lines from a line containing the start marker to a line containing the end marker
+    startMarker: string
+    endMarker: string
+    // Remove headings with this tag (e.g. "private" for #private) together with their subsections
+    privateHeadingTag: string
+    // Comma-separated callout types to remove (e.g. "private, secret")
+    calloutTypes: string
+}
+
+export interface RedactionResult {
+    content: string
+    // Number of removed comments, marked blocks, headings and callouts
+    redactionCount: number
+}
+
+export const DEFAULT_REDACTION_RULES: RedactionRules = {
+    removeComments: false,
+    startMarker: '',
+    endMarker: '',
+    privateHeadingTag: '',
+    calloutTypes: '',
+}
+
+export function hasRedactionRules(rules: RedactionRules): boolean {
+    return rules.removeComments
+        || (rules.startMarker.trim() !== '' && rules.endMarker.trim() !== '')
+        || rules.privateHeadingTag.trim() !== ''
+        || rules.calloutTypes.trim() !== ''
+}
+
+function escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+const FENCE_REGEX = /^\s*(```|~~~)/
+const HEADING_REGEX = /^(#{1,6})\s+(.*)$/
+const CALLOUT_REGEX = /^>\s*\[!([^\]]+)\]/
+
+/**
+ * Splits lines into runs of fenced code blocks and other text.
+ */
+export function splitByCodeBlocks(lines: string[]): { lines: string[], isCode: boolean }[] {
+    const runs: { lines: string[], isCode: boolean }[] = []
+    let fence: string | null = null
+    for (const line of lines) {
+        const fenceMatch = line.match(FENCE_REGEX)
+        let isCode = fence !== null
+        if (fence === null && fenceMatch) {
+            fence = fenceMatch[1]!
+            isCode = true
+        } else if (fence !== null && line.trim().startsWith(fence)) {
+            fence = null
+        }
+
+        const lastRun = runs[runs.length - 1]
+        if (lastRun && lastRun.isCode === isCode) {
+            lastRun.lines.push(line)
+        } else {
+            runs.push({ lines: [line], isCode })
+        }
+    }
+    return runs
+}
+
+function removeComments(content: string): RedactionResult {
+    let redactionCount = 0
+    const runs = splitByCodeBlocks(content.split('\n')).map(run => {
+        if (run.isCode) return run.lines.join('\n')
+        // An unterminated comment extends to the end of the text
+        return run.lines.join('\n').replace(/%%[\s\S]*?(?:%%|$)/g, () => {
+            redactionCount++
+            return ''
+        })
+    })
+    return { content: runs.join('\n'), redactionCount }
+}
+
+/**
+ * Removes private sections from note content according to the rules.
+ * Markers, headings and callouts inside fenced code blocks are ignored.
+ */
+export function redactContent(content: string, rules: RedactionRules): RedactionResult {
+    const startMarker = rules.startMarker.trim()
+    const endMarker = rules.endMarker.trim()
+    const useMarkers = startMarker !== '' && endMarker !== ''
+    const tag = rules.privateHeadingTag.trim().replace(/^#/, '')
+    const tagRegex = tag ? new RegExp(`(^|\\s)#${escapeRegex(tag)}(?=$|[\\s/])`, 'i') : null
+    const calloutTypes = rules.calloutTypes.split(',').map(t => t.trim().toLowerCase()).filter(t => t.length > 0)
+
+    let redactionCount = 0
+    if (rules.removeComments) {
+        const commentResult = removeComments(content)
+        content = commentResult.content
+        redactionCount = commentResult.redactionCount
+    }
+
+    const output: string[] = []
+    let inMarkedBlock = false
+    let privateHeadingLevel: number | null = null
+    let inCallout = false
+
+    for (const run of splitByCodeBlocks(content.split('\n'))) {
+        for (const line of run.lines) {
+            if (inMarkedBlock) {
+                if (!run.isCode && line.includes(endMarker)) inMarkedBlock = false
+                continue
+            }
+
+            const heading = run.isCode ? null : line.match(HEADING_REGEX)
+            if (privateHeadingLevel !== null) {
+                if (!heading || heading[1]!.length > privateHeadingLevel) continue
+                privateHeadingLevel = null
+            }
+
+            if (inCallout) {
+                if (line.startsWith('>')) continue
+                inCallout = false
+            }
+
+            if (!run.isCode) {
+                if (useMarkers && line.includes(startMarker)) {
+                    redactionCount++
+                    const rest = line.slice(line.indexOf(startMarker) + startMarker.length)
+                    inMarkedBlock = !rest.includes(endMarker)
+                    continue
+                }
+                if (tagRegex && heading && tagRegex.test(heading[2]!)) {
+                    redactionCount++
+                    privateHeadingLevel = heading[1]!.length
+                    continue
+                }
+                const callout = line.match(CALLOUT_REGEX)
+                if (callout && calloutTypes.includes(callout[1]!.trim().toLowerCase())) {
+                    redactionCount++
+                    inCallout = true
+                    continue
+                }
+            }
+            output.push(line)
+        }
+    }
+
+    return { content: output.join('\n'), redactionCount }
+}
+
+export const REDACTION_TRANSFORMER_ID = 'redaction'
+
+// Built-in pipeline step that applies the redaction rules returned by getRules
+export function createRedactionTransformer(getRules: () => RedactionRules): ContentTransformer {
+    return {
+        id: REDACTION_TRANSFORMER_ID,
+        name: 'Redaction',
+        description: 'Removes private sections according to the redaction settings.',
+        transform: (content) => redactContent(content, getRules()).content,
+    }
+}
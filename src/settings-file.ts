@@ -0,0 +1,39 @@
+import { parseYaml, stringifyYaml } from 'obsidian'
+import { SettingsData } from './settings-schema'
+
+/**
+ * Settings stored in a vault file (JSON or YAML, by extension) so that publishing rules
+ * can be versioned and reviewed together with the notes.
+ */
+
+// Settings that depend on the local machine or control the settings file itself stay in the plugin data
+export const LOCAL_SETTING_KEYS = ['repo', 'settingsFile', 'useSettingsFile']
+
+export function isYamlSettingsFile(path: string): boolean {
+    return /\.ya?ml$/i.test(path)
+}
+
+export function isSupportedSettingsFile(path: string): boolean {
+    return isYamlSettingsFile(path) || /\.json$/i.test(path)
+}
+
+// Returns a copy of the data without the local settings
+export function getSharedSettingsData(data: SettingsData): SettingsData {
+    return Object.fromEntries(Object.entries(data).filter(([key]) => !LOCAL_SETTING_KEYS.includes(key)))
+}
+
+export function formatSettingsFile(data: SettingsData, path: string): string {
+    return isYamlSettingsFile(path) ? stringifyYaml(data) : `${JSON.stringify(data, null, 2)}\n`
+}
+
+/**
+ * Parses the content of a settings file. Throws if the content is not valid JSON or YAML.
+ * Local settings in the file are ignored.
+ */
+export function parseSettingsFile(text: string, path: string): unknown {
+    const data: unknown = isYamlSettingsFile(path) ? parseYaml(text) : JSON.parse(text)
+    if (data !== null && typeof data === 'object' && !Array.isArray(data)) {
+        return getSharedSettingsData(data as SettingsData)
+    }
+    return data
+}
@@ -0,0 +1,331 @@
+import { CRITERION_TYPE_NAMES, CriterionType, SerializedCriterion, TextMatchMode, TagMatchMode, FrontmatterMatchMode, DateSource, DateMatchMode, LinkDirection, getReferencedDefinitionNames } from './criterion'
+import { DEFAULT_REDACTION_RULES } from './redaction'
+import { UnpublishedLinkMode } from './links'
+import { FrontmatterKeyFilter } from './frontmatter'
+
+/**
+ * Versioned schema of the saved plugin data (data.json).
+ *
+ * Saved data carries a `version`; data without one predates versioning and has version 0.
+ * On load, data is migrated step by step to the current version and then validated field by field,
+ * so that a single invalid field is reported by its path (e.g. `criterion.criteria[1].matchMode`)
+ * and reset instead of discarding the whole configuration.
+ */
+
+export const SETTINGS_VERSION = 1
+
+export type SettingsData = Record<string, unknown>
+
+export class SettingsValidationError extends Error {
+    constructor(public readonly path: string, public readonly reason: string) {
+        super(`${path || 'Settings'}: ${reason}`)
+        this.name = 'SettingsValidationError'
+    }
+}
+
+export interface SettingsLoadResult {
+    // Migrated data containing only the valid fields
+    data: SettingsData
+    errors: SettingsValidationError[]
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
+function describeValue(value: unknown): string {
+    if (value === undefined) return 'nothing'
+    return JSON.stringify(value) ?? typeof value
+}
+
+// Migrations
+
+// Match modes used to be written in other spellings, e.g. `regex`, `startsWith` or `STARTS_WITH`
+function normalizeMatchMode(value: unknown, modes: readonly string[]): unknown {
+    if (typeof value !== 'string') return value
+    const normalized = value.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').trim().toLowerCase()
+    if (modes.includes(normalized)) return normalized
+    if (modes.includes(`matches ${normalized}`)) return `matches ${normalized}`
+    return value
+}
+
+// Defaults for fields that older criterion data may lack
+const CRITERION_FIELD_DEFAULTS: Partial<Record<CriterionType, Record<string, unknown>>> = {
+    Tag: { matchMode: TagMatchMode.StartsWith },
+    Frontmatter: { value: '', matchMode: FrontmatterMatchMode.Equals },
+    Title: { matchMode: TextMatchMode.Contains },
+    Path: { matchMode: TextMatchMode.Contains },
+    Date: { key: '', endValue: '' },
+    LinkGraph: { maxDepth: 1, direction: LinkDirection.Outgoing },
+}
+
+// Accepts type names in any case and with a `Criterion` suffix, e.g. `tag` or `TagCriterion`
+function normalizeCriterionType(value: unknown): unknown {
+    if (typeof value !== 'string') return value
+    const name = value.replace(/criterion$/i, '').toLowerCase()
+    return CRITERION_TYPE_NAMES.find(type => type.toLowerCase() === name) ?? value
+}
+
+function migrateCriterionV0(value: unknown): unknown {
+    if (!isRecord(value)) return value
+    const data: Record<string, unknown> = { ...value, type: normalizeCriterionType(value.type) }
+    const type = data.type as CriterionType
+
+    for (const [key, defaultValue] of Object.entries(CRITERION_FIELD_DEFAULTS[type] ?? {})) {
+        if (data[key] === undefined || data[key] === null) data[key] = defaultValue
+    }
+    const matchModes = getEnumField(type, 'matchMode')
+    if (matchModes) data.matchMode = normalizeMatchMode(data.matchMode, matchModes)
+    // Frontmatter values were sometimes saved as YAML scalars
+    if (type === 'Frontmatter' && (typeof data.value === 'number' || typeof data.value === 'boolean')) {
+        data.value = String(data.value)
+    }
+
+    if (Array.isArray(data.criteria)) data.criteria = data.criteria.map(migrateCriterionV0)
+    if (data.criterion !== undefined) data.criterion = migrateCriterionV0(data.criterion)
+    return data
+}
+
+// Migrations[n] migrates data from version n to n + 1
+const MIGRATIONS: ((data: SettingsData) => SettingsData)[] = [
+    (data) => {
+        const migrated = { ...data }
+        if (migrated.criterion !== undefined) migrated.criterion = migrateCriterionV0(migrated.criterion)
+        if (isRecord(migrated.criterionDefinitions)) {
+            const definitions: Record<string, unknown> = {}
+            for (const [name, definition] of Object.entries(migrated.criterionDefinitions)) {
+                definitions[name] = migrateCriterionV0(definition)
+            }
+            migrated.criterionDefinitions = definitions
+        }
+        return migrated
+    },
+]
+
+// Validation
+
+type FieldSpec = 'string' | 'boolean' | 'string list' | 'non-negative integer' | 'criterion' | 'criteria' | readonly string[]
+
+const CRITERION_FIELDS: Record<CriterionType, Record<string, FieldSpec>> = {
+    Tag: { tag: 'string', matchMode: Object.values(TagMatchMode) },
+    Frontmatter: { key: 'string', value: 'string', matchMode: Object.values(FrontmatterMatchMode) },
+    Folder: { folder: 'string', recursive: 'boolean' },
+    Inherited: { key: 'string', markerFile: 'string' },
+    Title: { pattern: 'string', matchMode: Object.values(TextMatchMode) },
+    Path: { pattern: 'string', matchMode: Object.values(TextMatchMode) },
+    Content: { regex: 'string' },
+    Date: { source: Object.values(DateSource), key: 'string', matchMode: Object.values(DateMatchMode), value: 'string', endValue: 'string' },
+    LinkGraph: { criterion: 'criterion', maxDepth: 'non-negative integer', direction: Object.values(LinkDirection) },
+    Reference: { name: 'string' },
+    And: { criteria: 'criteria' },
+    Or: { criteria: 'criteria' },
+    Not: { criterion: 'criterion' },
+}
+
+function getEnumField(type: CriterionType, key: string): readonly string[] | null {
+    const spec = CRITERION_FIELDS[type]?.[key]
+    return Array.isArray(spec) ? spec : null
+}
+
+function validateField(value: unknown, spec: FieldSpec, path: string): void {
+    if (Array.isArray(spec)) {
+        if (!spec.includes(value as string)) {
+            throw new SettingsValidationError(path, `expected one of ${spec.map(s => `"${s}"`).join(', ')} but got ${describeValue(value)}`)
+        }
+        return
+    }
+    switch (spec) {
+        case 'string':
+        case 'boolean':
+            if (typeof value !== spec) throw new SettingsValidationError(path, `expected a ${spec} but got ${describeValue(value)}`)
+            return
+        case 'string list':
+            if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+                throw new SettingsValidationError(path, `expected a list of strings but got ${describeValue(value)}`)
+            }
+            return
+        case 'non-negative integer':
+            if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+                throw new SettingsValidationError(path, `expected a non-negative integer but got ${describeValue(value)}`)
+            }
+            return
+        case 'criterion':
+            validateCriterionData(value, path)
+            return
+        case 'criteria':
+            if (!Array.isArray(value)) throw new SettingsValidationError(path, `expected a list of criteria but got ${describeValue(value)}`)
+            value.forEach((child, index) => validateCriterionData(child, `${path}[${index}]`))
+            return
+    }
+}
+
+/**
+ * Checks that serialized criterion data has a known type and valid fields.
+ * Throws a SettingsValidationError naming the first invalid field.
+ */
+export function validateCriterionData(data: unknown, path: string): asserts data is SerializedCriterion {
+    if (!isRecord(data)) {
+        throw new SettingsValidationError(path, `expected a criterion but got ${describeValue(data)}`)
+    }
+    if (!CRITERION_TYPE_NAMES.includes(data.type as CriterionType)) {
+        throw new SettingsValidationError(`${path}.type`, `unknown criterion type ${describeValue(data.type)}`)
+    }
+    for (const [key, spec] of Object.entries(CRITERION_FIELDS[data.type as CriterionType])) {
+        validateField(data[key], spec, `${path}.${key}`)
+    }
+}
+
+const SETTINGS_FIELDS: Record<string, FieldSpec> = {
+    repo: 'string',
+    repoBranch: 'string',
+    commitMessage: 'string',
+    showPreviewBeforePublishing: 'boolean',
+    publishAttachments: 'boolean',
+    extraFilePatterns: 'string',
+    protectedPaths: 'string',
+    disabledTransformers: 'string list',
+    settingsFile: 'string',
+    useSettingsFile: 'boolean',
+    criterion: 'criterion',
+}
+
+const REDACTION_FIELDS: Record<string, FieldSpec> = Object.fromEntries(
+    Object.entries(DEFAULT_REDACTION_RULES).map(([key, value]) => [key, typeof value === 'boolean' ? 'boolean' : 'string'])
+)
+
+// Copies the fields of `source` that are valid into `target`, collecting errors for the others.
+// Missing fields are left out so that defaults apply.
+function copyValidFields(source: Record<string, unknown>, fields: Record<string, FieldSpec>, path: string, target: SettingsData, errors: SettingsValidationError[]) {
+    for (const [key, spec] of Object.entries(fields)) {
+        if (source[key] === undefined) continue
+        try {
+            validateField(source[key], spec, path ? `${path}.${key}` : key)
+            target[key] = source[key]
+        } catch (error) {
+            if (!(error instanceof SettingsValidationError)) throw error
+            errors.push(error)
+        }
+    }
+}
+
+const LINK_FIELDS: Record<string, FieldSpec> = {
+    unpublishedLinks: Object.values(UnpublishedLinkMode),
+    placeholder: 'string',
+    convertToMarkdownLinks: 'boolean',
+}
+
+const FRONTMATTER_FIELDS: Record<string, FieldSpec> = {
+    keyFilter: Object.values(FrontmatterKeyFilter),
+    keys: 'string',
+    renames: 'string',
+    titleKey: 'string',
+    createdKey: 'string',
+    modifiedKey: 'string',
+    tagsKey: 'string',
+}
+
+const PATH_MAPPING_FIELDS: Record<string, FieldSpec> = {
+    folderMappings: 'string',
+    slugify: 'boolean',
+    attachmentFolder: 'string',
+    pathProperty: 'string',
+}
+
+// Settings that are objects of their own fields
+const NESTED_SETTINGS_FIELDS: Record<string, Record<string, FieldSpec>> = {
+    redaction: REDACTION_FIELDS,
+    links: LINK_FIELDS,
+    frontmatter: FRONTMATTER_FIELDS,
+    pathMapping: PATH_MAPPING_FIELDS,
+}
+
+// Returns the references that lead from a definition back to itself, or null if it is not part of a cycle
+function findReferenceCycle(name: string, definitions: Record<string, SerializedCriterion>): string[] | null {
+    const visited = new Set<string>()
+    const visit = (path: string[]): string[] | null => {
+        const definition = definitions[path[path.length - 1]!]
+        if (!definition) return null
+        for (const referenced of getReferencedDefinitionNames(definition)) {
+            if (referenced === name) return [...path, name]
+            if (visited.has(referenced)) continue
+            visited.add(referenced)
+            const cycle = visit([...path, referenced])
+            if (cycle) return cycle
+        }
+        return null
+    }
+    return visit([name])
+}
+
+function validateSettingsData(data: SettingsData): SettingsLoadResult {
+    const errors: SettingsValidationError[] = []
+    const valid: SettingsData = { version: SETTINGS_VERSION }
+    copyValidFields(data, SETTINGS_FIELDS, '', valid, errors)
+
+    for (const [key, fields] of Object.entries(NESTED_SETTINGS_FIELDS)) {
+        const value = data[key]
+        if (value === undefined) continue
+        if (isRecord(value)) {
+            const nested: SettingsData = {}
+            copyValidFields(value, fields, key, nested, errors)
+            valid[key] = nested
+        } else {
+            errors.push(new SettingsValidationError(key, `expected an object but got ${describeValue(value)}`))
+        }
+    }
+
+    if (data.criterionDefinitions !== undefined) {
+        if (isRecord(data.criterionDefinitions)) {
+            const definitions: Record<string, SerializedCriterion> = {}
+            for (const [name, definition] of Object.entries(data.criterionDefinitions)) {
+                try {
+                    validateCriterionData(definition, `criterionDefinitions.${name}`)
+                    definitions[name] = definition
+                } catch (error) {
+                    if (!(error instanceof SettingsValidationError)) throw error
+                    errors.push(error)
+                }
+            }
+            // Definitions that reference themselves cannot be resolved, so all definitions of a cycle are left out
+            const cycles = Object.keys(definitions).map(name => findReferenceCycle(name, definitions))
+            for (const cycle of cycles) {
+                if (!cycle) continue
+                errors.push(new SettingsValidationError(`criterionDefinitions.${cycle[0]}`, `cyclic reference ${cycle.join(' -> ')}`))
+            }
+            for (const cycle of cycles) {
+                if (cycle) delete definitions[cycle[0]!]
+            }
+            valid.criterionDefinitions = definitions
+        } else {
+            errors.push(new SettingsValidationError('criterionDefinitions', `expected an object but got ${describeValue(data.criterionDefinitions)}`))
+        }
+    }
+
+    return { data: valid, errors }
+}
+
+/**
+ * Migrates saved plugin data to the current version and validates it.
+ * Invalid fields are left out of the result and reported as errors. Data saved by a newer
+ * version of the plugin is not interpreted at all, since its fields may have changed meaning.
+ */
+export function loadSettingsData(raw: unknown): SettingsLoadResult {
+    if (raw === null || raw === undefined) return { data: { version: SETTINGS_VERSION }, errors: [] }
+    if (!isRecord(raw)) {
+        return { data: { version: SETTINGS_VERSION }, errors: [new SettingsValidationError('', `expected an object but got ${describeValue(raw)}`)] }
+    }
+
+    const version = raw.version ?? 0
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+        return { data: { version: SETTINGS_VERSION }, errors: [new SettingsValidationError('version', `expected a non-negative integer but got ${describeValue(version)}`)] }
+    }
+    if (version > SETTINGS_VERSION) {
+        return { data: { version: SETTINGS_VERSION }, errors: [new SettingsValidationError('version', `settings version ${version} was saved by a newer version of the plugin, which supports up to version ${SETTINGS_VERSION}`)] }
+    }
+
+    let data: SettingsData = raw
+    for (let v = version; v < SETTINGS_VERSION; v++) {
+        data = MIGRATIONS[v]!(data)
+    }
+    return validateSettingsData(data)
+}
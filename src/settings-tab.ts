@@ -1,17 +1,28 @@
-import { App, PluginSettingTab, Setting, Notice, DropdownComponent, TextComponent } from 'obsidian'
+import { App, PluginSettingTab, Setting, Notice, DropdownComponent, TextComponent, ButtonComponent } from 'obsidian'
 import SelectivePublisherPlugin from './main'
-import { CriterionEditorModal, addGlobField } from './criterion-editor-modal'
+import { CriterionEditorModal, addGlobField, addQueryField } from './criterion-editor-modal'
+import { formatCriterionQuery } from './criterion-query'
+import { Criterion, FrontmatterCriterion, SerializedCriterion, getReferencedDefinitionNames } from './criterion'
 import { GitHelper } from './git-service'
+import { isSupportedSettingsFile } from './settings-file'
+import { UnpublishedLinkMode } from './links'
+import { FrontmatterKeyFilter, ComputedFrontmatterKey } from './frontmatter'
 import { dialog } from '@electron/remote'
 
 export class SelectivePublisherSettingTab extends PluginSettingTab {
     plugin: SelectivePublisherPlugin
+    editCriterionAsText = false
 
     constructor(app: App, plugin: SelectivePublisherPlugin) {
         super(app, plugin)
         this.plugin = plugin
     }
 
+    // Renders the tab again if it is open, e.g. after the settings were reloaded from the settings file
+    refresh() {
+        if (this.containerEl.isConnected) this.display()
+    }
+
     display(): void {
         const { containerEl } = this
 
@@ -101,7 +112,7 @@ export class SelectivePublisherSettingTab extends PluginSettingTab {
                 .setButtonText('Edit criterion')
                 .setCta()
                 .onClick(() => {
-                    new CriterionEditorModal(this.app, this.plugin.settings.criterion, (updatedCriterion) => {
+                    new CriterionEditorModal(this.app, this.plugin.settings.criterion, this.plugin.getDeserializationContext(), (criterion) => this.plugin.getMatchingNotes(criterion), (updatedCriterion) => {
                         this.plugin.settings.criterion = updatedCriterion
                         void this.plugin.saveSettings().then(() => this.display())
                     }).open()
@@ -111,11 +122,51 @@ export class SelectivePublisherSettingTab extends PluginSettingTab {
                 .setButtonText('Preview publishable files')
                 .onClick(() => { void this.plugin.previewPublishableFiles() })
             )
-        // Representation of the current criterion
-        containerEl.createEl('pre', {
-            text: this.plugin.settings.criterion.getSummary(),
-            cls: 'sp-criterion-summary',
-        })
+
+        new Setting(containerEl)
+            .setName('Edit criterion as text')
+            .setDesc('Show the criterion as an editable query instead of a summary.')
+            .addToggle((toggle) =>
+                toggle.setValue(this.editCriterionAsText)
+                    .onChange((value) => {
+                        this.editCriterionAsText = value
+                        this.display()
+                    })
+            )
+
+        if (this.editCriterionAsText) {
+            const querySetting = new Setting(containerEl).setClass('sp-query-setting')
+            // The query is parsed while typing but only applied with the button, so that partial edits
+            // that happen to parse never become the publishing criterion
+            let parsedCriterion: Criterion | null = null
+            let applyButton: ButtonComponent | null = null
+            addQueryField(containerEl, querySetting, this.plugin.getDeserializationContext(), () => formatCriterionQuery(this.plugin.settings.criterion),
+                (criterion) => {
+                    parsedCriterion = criterion
+                    applyButton?.setDisabled(criterion === null)
+                }
+            )
+            querySetting.addButton((btn) => {
+                applyButton = btn
+                    .setButtonText('Apply')
+                    .setCta()
+                    .setDisabled(true)
+                    .onClick(async () => {
+                        if (!parsedCriterion) return
+                        this.plugin.settings.criterion = parsedCriterion
+                        await this.plugin.saveSettings()
+                        this.display()
+                    })
+            })
+        } else {
+            // Representation of the current criterion
+            containerEl.createEl('pre', {
+                text: this.plugin.settings.criterion.getSummary(),
+                cls: 'sp-criterion-summary',
+            })
+        }
+
+        this.displayCriterionDefinitions(containerEl)
 
         new Setting(containerEl)
             .setName('Publish attachments')
@@ -140,10 +191,405 @@ export class SelectivePublisherSettingTab extends PluginSettingTab {
             }
         )
 
+        const protectedPathsSetting = new Setting(containerEl)
+            .setName('Protected paths')
+            .setDesc('Glob patterns (one per line) for repository files that are never deleted, even if they were published by this plugin and are no longer publishable. Files that this plugin did not publish are never deleted.')
+        addGlobField(containerEl, protectedPathsSetting, () => this.plugin.settings.protectedPaths,
+            (value) => {
+                void (async () => {
+                    this.plugin.settings.protectedPaths = value
+                    await this.plugin.saveSettings()
+                })()
+            }
+        )
+
+        this.displayRedactionSettings(containerEl)
+        this.displayLinkSettings(containerEl)
+        this.displayFrontmatterSettings(containerEl)
+        this.displayPathMappingSettings(containerEl)
+        this.displayTransformerSettings(containerEl)
+        this.displaySettingsFileSettings(containerEl)
+
         // Initial validation
         void this.validateAndRefreshRepoBranches(repoBranchDropdown!)
     }
 
+    private displayLinkSettings(containerEl: HTMLElement) {
+        const rules = this.plugin.settings.links
+        new Setting(containerEl)
+            .setName('Links')
+            .setDesc('Links and embeds in published notes that point to notes or files that are not published. The publishing preview lists them.')
+            .setHeading()
+
+        new Setting(containerEl)
+            .setName('Links to unpublished notes')
+            .setDesc('Replace them with their text, or with the placeholder. Embeds of unpublished notes and files are removed when replaced with their text.')
+            .addDropdown((dropdown) => {
+                for (const mode of Object.values(UnpublishedLinkMode))
+                    dropdown.addOption(mode, mode)
+                dropdown.setValue(rules.unpublishedLinks)
+                    .onChange(async (value) => {
+                        rules.unpublishedLinks = value as UnpublishedLinkMode
+                        await this.plugin.saveSettings()
+                    })
+            })
+
+        new Setting(containerEl)
+            .setName('Placeholder')
+            .setDesc('Replacement for links to unpublished notes. {text} stands for the link text.')
+            .addText((text) =>
+                text.setValue(rules.placeholder)
+                    .onChange(async (value) => {
+                        rules.placeholder = value
+                        await this.plugin.saveSettings()
+                    })
+            )
+
+        new Setting(containerEl)
+            .setName('Convert wikilinks to Markdown links')
+            .setDesc('Write links to published notes and files as relative Markdown links, which also work outside Obsidian.')
+            .addToggle((toggle) =>
+                toggle.setValue(rules.convertToMarkdownLinks)
+                    .onChange(async (value) => {
+                        rules.convertToMarkdownLinks = value
+                        await this.plugin.saveSettings()
+                    })
+            )
+    }
+
+    private displayFrontmatterSettings(containerEl: HTMLElement) {
+        const rules = this.plugin.settings.frontmatter
+        new Setting(containerEl)
+            .setName('Frontmatter')
+            .setDesc('Properties of published notes. Keys are filtered, then renamed, and then computed properties are added where notes do not set them.')
+            .setHeading()
+
+        new Setting(containerEl)
+            .setName('Properties to publish')
+            .setDesc('Keep all properties, only the listed ones, or all except the listed ones.')
+            .addDropdown((dropdown) => {
+                for (const filter of Object.values(FrontmatterKeyFilter))
+                    dropdown.addOption(filter, filter)
+                dropdown.setValue(rules.keyFilter)
+                    .onChange(async (value) => {
+                        rules.keyFilter = value as FrontmatterKeyFilter
+                        await this.plugin.saveSettings()
+                    })
+            })
+            .addText((text) =>
+                text.setPlaceholder('Reviewer, source-notes')
+                    .setValue(rules.keys)
+                    .onChange(async (value) => {
+                        rules.keys = value
+                        await this.plugin.saveSettings()
+                    })
+            )
+
+        new Setting(containerEl)
+            .setName('Renamed properties')
+            .setDesc('One rename per line, written as old: new, such as created: date.')
+            .addTextArea((textArea) =>
+                textArea.setValue(rules.renames)
+                    .onChange(async (value) => {
+                        rules.renames = value
+                        await this.plugin.saveSettings()
+                    })
+            )
+
+        const computedKeys: [ComputedFrontmatterKey, string, string, string][] = [
+            ['titleKey', 'Title property', 'Name of the note.', 'title'],
+            ['createdKey', 'Creation date property', 'Creation time of the note file.', 'date'],
+            ['modifiedKey', 'Modification date property', 'Last modification time of the note file.', 'lastmod'],
+            ['tagsKey', 'Tags property', 'All tags of the note, including inline tags.', 'tags'],
+        ]
+        for (const [key, name, desc, placeholder] of computedKeys) {
+            new Setting(containerEl)
+                .setName(name)
+                .setDesc(`${desc} Leave empty to not add it.`)
+                .addText((text) =>
+                    text.setPlaceholder(placeholder)
+                        .setValue(rules[key])
+                        .onChange(async (value) => {
+                            rules[key] = value
+                            await this.plugin.saveSettings()
+                        })
+                )
+        }
+    }
+
+    private displayPathMappingSettings(containerEl: HTMLElement) {
+        const rules = this.plugin.settings.pathMapping
+        new Setting(containerEl)
+            .setName('Repository paths')
+            .setDesc('Where files are written in the publishing repository. By default, the repository mirrors the vault folders.')
+            .setHeading()
+
+        new Setting(containerEl)
+            .setName('Folder mappings')
+            .setDesc('One mapping per line, written as vault folder: repository folder, such as blog: posts. Leave the repository folder empty to remove the vault folder from the paths.')
+            .addTextArea((textArea) =>
+                textArea.setValue(rules.folderMappings)
+                    .onChange(async (value) => {
+                        rules.folderMappings = value
+                        await this.plugin.saveSettings()
+                    })
+            )
+
+        new Setting(containerEl)
+            .setName('Slugify paths')
+            .setDesc('Write folder and file names in lower case with hyphens instead of spaces and special characters, so that they work in web addresses.')
+            .addToggle((toggle) =>
+                toggle.setValue(rules.slugify)
+                    .onChange(async (value) => {
+                        rules.slugify = value
+                        await this.plugin.saveSettings()
+                    })
+            )
+
+        new Setting(containerEl)
+            .setName('Attachment folder')
+            .setDesc('Folder that all files other than notes are moved to, such as assets. Leave empty to keep them in their folders.')
+            .addText((text) =>
+                text.setValue(rules.attachmentFolder)
+                    .onChange(async (value) => {
+                        rules.attachmentFolder = value
+                        await this.plugin.saveSettings()
+                    })
+            )
+
+        new Setting(containerEl)
+            .setName('Path property')
+            .setDesc('Frontmatter property with the repository path of a note, which takes precedence over the other rules. Leave empty to disable.')
+            .addText((text) =>
+                text.setValue(rules.pathProperty)
+                    .onChange(async (value) => {
+                        rules.pathProperty = value
+                        await this.plugin.saveSettings()
+                    })
+            )
+    }
+
+    private displayTransformerSettings(containerEl: HTMLElement) {
+        new Setting(containerEl)
+            .setName('Content transformation')
+            .setDesc('Steps applied in this order to notes before they are written to the repository. Steps added by other plugins are listed as well.')
+            .setHeading()
+
+        for (const transformer of this.plugin.contentPipeline.getTransformers()) {
+            new Setting(containerEl)
+                .setName(transformer.name)
+                .setDesc(transformer.description ?? '')
+                .addToggle((toggle) =>
+                    toggle.setValue(!this.plugin.settings.disabledTransformers.includes(transformer.id))
+                        .onChange(async (value) => {
+                            const disabled = this.plugin.settings.disabledTransformers.filter(id => id !== transformer.id)
+                            this.plugin.settings.disabledTransformers = value ? disabled : [...disabled, transformer.id]
+                            await this.plugin.saveSettings()
+                        })
+                )
+        }
+    }
+
+    private displayRedactionSettings(containerEl: HTMLElement) {
+        const rules = this.plugin.settings.redaction
+        new Setting(containerEl)
+            .setName('Redaction')
+            .setDesc('Private sections removed from notes when they are published. The publishing preview shows the number of removed sections per note.')
+            .setHeading()
+
+        new Setting(containerEl)
+            .setName('Remove comments')
+            .setDesc('Remove Obsidian comments (%% ... %%).')
+            .addToggle((toggle) =>
+                toggle.setValue(rules.removeComments)
+                    .onChange(async (value) => {
+                        rules.removeComments = value
+                        await this.plugin.saveSettings()
+                    })
+            )
+
+        new Setting(containerEl)
+            .setName('Private block markers')
+            .setDesc('Remove lines from a line containing the start marker to a line containing the end marker. Leave empty to disable.')
+            .addText((text) =>
+                text.setPlaceholder('<!-- private -->')
+                    .setValue(rules.startMarker)
+                    .onChange(async (value) => {
+                        rules.startMarker = value
+                        await this.plugin.saveSettings()
+                    })
+            )
+            .addText((text) =>
+                text.setPlaceholder('<!-- /private -->')
+                    .setValue(rules.endMarker)
+                    .onChange(async (value) => {
+                        rules.endMarker = value
+                        await this.plugin.saveSettings()
+                    })
+            )
+
+        new Setting(containerEl)
+            .setName('Private heading tag')
+            .setDesc('Remove headings with this tag together with their subsections. Leave empty to disable.')
+            .addText((text) =>
+                text.setPlaceholder('Private')
+                    .setValue(rules.privateHeadingTag)
+                    .onChange(async (value) => {
+                        rules.privateHeadingTag = value
+                        await this.plugin.saveSettings()
+                    })
+            )
+
+        new Setting(containerEl)
+            .setName('Private callout types')
+            .setDesc('Comma-separated callout types to remove. Leave empty to disable.')
+            .addText((text) =>
+                text.setPlaceholder('Private, secret')
+                    .setValue(rules.calloutTypes)
+                    .onChange(async (value) => {
+                        rules.calloutTypes = value
+                        await this.plugin.saveSettings()
+                    })
+            )
+    }
+
+    private displaySettingsFileSettings(containerEl: HTMLElement) {
+        new Setting(containerEl)
+            .setName('Configuration file')
+            .setDesc('Store the publishing settings in a vault file so that they can be reviewed together with the notes. The publishing directory is not stored in the file.')
+            .setHeading()
+
+        new Setting(containerEl)
+            .setName('Configuration file path')
+            .setDesc('Vault path of the file. The format (JSON or YAML) follows from the file extension.')
+            .addText((text) => {
+                text.setPlaceholder('Publishing-settings.yaml')
+                    .setValue(this.plugin.settings.settingsFile)
+                // Applied when editing is finished, so that partial paths are not read or written
+                text.inputEl.addEventListener('change', () => {
+                    const value = text.getValue().trim()
+                    if (!isSupportedSettingsFile(value)) {
+                        new Notice('The configuration file must be a JSON or YAML file.')
+                        text.setValue(this.plugin.settings.settingsFile)
+                        return
+                    }
+                    void this.plugin.setSettingsFile(value).then(() => this.display())
+                })
+            })
+            .addButton((btn) => btn
+                .setButtonText('Export')
+                .setTooltip('Write the current settings to the file')
+                .onClick(async () => {
+                    await this.plugin.exportSettings()
+                })
+            )
+            .addButton((btn) => btn
+                .setButtonText('Import')
+                .setTooltip('Replace the current settings with those in the file')
+                .onClick(async () => {
+                    await this.plugin.importSettings()
+                    this.display()
+                })
+            )
+
+        new Setting(containerEl)
+            .setName('Read settings from configuration file')
+            .setDesc('Use the configuration file instead of the plugin data. Changes to the file are applied immediately and changes made here are written to the file. If the file does not exist, it is created from the current settings.')
+            .addToggle((toggle) =>
+                toggle.setValue(this.plugin.settings.useSettingsFile)
+                    .onChange(async (value) => {
+                        await this.plugin.setUseSettingsFile(value)
+                        this.display()
+                    })
+            )
+    }
+
+    private displayCriterionDefinitions(containerEl: HTMLElement) {
+        new Setting(containerEl)
+            .setName('Criterion definitions')
+            .setDesc('Named criteria that the publishing criterion and other definitions can use as reference criteria.')
+            .addButton((btn) => btn
+                .setButtonText('Add definition')
+                .onClick(async () => {
+                    const definitions = this.plugin.settings.criterionDefinitions
+                    let name = 'New definition'
+                    for (let i = 2; name in definitions; i++) name = `New definition ${i}`
+                    const definition = new FrontmatterCriterion('draft', 'true').serialize()
+                    await this.plugin.setCriterionDefinitions({ ...definitions, [name]: definition })
+                    this.display()
+                })
+            )
+
+        for (const [name, definition] of Object.entries(this.plugin.settings.criterionDefinitions)) {
+            const context = this.plugin.getDeserializationContext()
+            // A definition that cannot be resolved, e.g. because it references a missing definition, is shown with its error
+            let criterion: Criterion | null = null
+            let description: string
+            try {
+                criterion = Criterion.deserialize(definition, { ...context, resolving: [name] })
+                description = criterion.getSummary()
+            } catch (error) {
+                description = `Invalid definition: ${(error as Error).message}`
+            }
+
+            new Setting(containerEl)
+                .setClass('sp-definition-setting')
+                .setDesc(description)
+                .addText((text) => {
+                    text.setValue(name)
+                    // Rename when the field loses focus rather than on every keystroke
+                    text.inputEl.addEventListener('change', () => {
+                        void this.renameCriterionDefinition(name, text.getValue().trim())
+                    })
+                })
+                .addExtraButton((btn) => btn
+                    .setIcon('pencil')
+                    .setTooltip('Edit definition')
+                    .setDisabled(criterion === null)
+                    .onClick(() => {
+                        if (!criterion) return
+                        new CriterionEditorModal(this.app, criterion, { ...context, resolving: [name] }, (criterion) => this.plugin.getMatchingNotes(criterion), (updatedCriterion) => {
+                            void this.updateCriterionDefinition(name, updatedCriterion.serialize())
+                        }).open()
+                    })
+                )
+                .addExtraButton((btn) => btn
+                    .setIcon('trash')
+                    .setTooltip('Delete definition')
+                    .onClick(async () => {
+                        const definitions = { ...this.plugin.settings.criterionDefinitions }
+                        delete definitions[name]
+                        const usedIn = [this.plugin.settings.criterion.serialize(), ...Object.values(definitions)]
+                        if (usedIn.some(data => getReferencedDefinitionNames(data).has(name))) {
+                            new Notice(`Definition "${name}" is still referenced and cannot be deleted.`)
+                            return
+                        }
+                        await this.plugin.setCriterionDefinitions(definitions)
+                        this.display()
+                    })
+                )
+        }
+    }
+
+    private async renameCriterionDefinition(oldName: string, newName: string) {
+        if (newName === oldName) return
+        if (newName.length === 0 || newName in this.plugin.settings.criterionDefinitions) {
+            new Notice(newName.length === 0 ? 'Definition name cannot be empty.' : `A definition named "${newName}" already exists.`)
+        } else {
+            await this.plugin.renameCriterionDefinition(oldName, newName)
+        }
+        this.display()
+    }
+
+    private async updateCriterionDefinition(name: string, definition: SerializedCriterion) {
+        try {
+            await this.plugin.setCriterionDefinitions({ ...this.plugin.settings.criterionDefinitions, [name]: definition })
+        } catch (error) {
+            new Notice((error as Error).message)
+        }
+        this.display()
+    }
+
     async validateAndRefreshRepoBranches(dropdown?: DropdownComponent) {
         const result = await GitHelper.validateRepo(this.plugin.settings.repo)
         if (!result.isValid) {
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { parseCriterionQuery, formatCriterionQuery, CriterionQueryError } from '../src/criterion-query'
+import { AndCriterion, OrCriterion, NotCriterion, TagCriterion, TagMatchMode, FrontmatterCriterion, FrontmatterMatchMode } from '../src/criterion'
+
+describe('parseCriterionQuery', () => {
+    it('respects operator precedence', () => {
+        const criterion = parseCriterionQuery('tag equals a or tag equals b and not tag equals c')
+        expect(criterion).toBeInstanceOf(OrCriterion)
+        const [first, second] = (criterion as OrCriterion).criteria
+        expect(first).toBeInstanceOf(TagCriterion)
+        expect(second).toBeInstanceOf(AndCriterion)
+        expect((second as AndCriterion).criteria[1]).toBeInstanceOf(NotCriterion)
+    })
+
+    it.each([
+        'tag startswith project/alpha',
+        'frontmatter publish is true and not path glob _*',
+        '(tag equals a or tag equals b) and title contains "x y"',
+        'frontmatter priority > 2 or frontmatter aliases hasany "a, b"',
+        'date frontmatter published between 2024-01 and 2024-06',
+        'date modified within 30d',
+        'folder Blog/2024 and not folder "" only',
+        'inherited publish or inherited visible marker .folder.md',
+        'linked both 2 from (tag equals public or ref Featured)',
+        'and(tag equals a)',
+        'or()',
+        'content matches "line\\nbreak \\"quoted\\""',
+    ])('round-trips %s', (query) => {
+        expect(formatCriterionQuery(parseCriterionQuery(query))).toBe(query)
+    })
+
+    it('keeps the value of frontmatter tests that do not compare it', () => {
+        const criteria = [
+            new FrontmatterCriterion('draft', 'yes', FrontmatterMatchMode.Exists),
+            new FrontmatterCriterion('publish', 'some value', FrontmatterMatchMode.IsTrue),
+            new FrontmatterCriterion('notes', '', FrontmatterMatchMode.IsEmpty),
+        ]
+        expect(criteria.map(formatCriterionQuery)).toEqual([
+            'frontmatter draft exists value yes',
+            'frontmatter publish is true value "some value"',
+            'frontmatter notes is empty',
+        ])
+        for (const criterion of criteria) {
+            expect(parseCriterionQuery(formatCriterionQuery(criterion)).serialize()).toEqual(criterion.serialize())
+        }
+    })
+
+    it('reports the position of syntax errors', () => {
+        try {
+            parseCriterionQuery('tag equals a and\n  tag bogus b')
+            expect.unreachable()
+        } catch (error) {
+            expect(error).toBeInstanceOf(CriterionQueryError)
+            expect((error as CriterionQueryError).line).toBe(2)
+            expect((error as CriterionQueryError).column).toBe(7)
+        }
+    })
+
+    it('resolves references when given definitions', () => {
+        const definitions = {
+            Public: { type: 'Tag' as const, tag: 'public', matchMode: TagMatchMode.Equals },
+            Loop: { type: 'Reference' as const, name: 'Loop' },
+        }
+        expect(() => parseCriterionQuery('ref Missing', { definitions })).toThrow(CriterionQueryError)
+        expect(() => parseCriterionQuery('ref Loop', { definitions })).toThrow(/Cyclic criterion reference: Loop -> Loop/)
+        expect(parseCriterionQuery('ref Public', { definitions }).serialize()).toEqual({ type: 'Reference', name: 'Public' })
+    })
+})
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import { parseCriterionQuery, formatCriterionQuery } from '../src/criterion-query'
+import { TagCriterion, OrCriterion } from '../src/criterion'
+import { CriterionHistory, getCriterionAt, replaceCriterionAt, transferChildren, canMoveCriterion, moveCriterion, insertCriterionAfter, removeCriterionAt, wrapCriterionAt, canUnwrapCriterion, unwrapCriterionAt } from '../src/criterion-tree'
+
+const query = formatCriterionQuery
+
+describe('criterion tree edits', () => {
+    it('addresses nodes by path', () => {
+        const root = parseCriterionQuery('tag equals a and not (tag equals b or tag equals c)')
+        expect(query(getCriterionAt(root, [1, 0, 1]))).toBe('tag equals c')
+        expect(() => getCriterionAt(root, [2])).toThrow()
+    })
+
+    it('moves criteria within their group', () => {
+        const root = parseCriterionQuery('tag equals a and tag equals b and tag equals c')
+        expect(canMoveCriterion(root, [0], -1)).toBe(false)
+        moveCriterion(root, [0], 1)
+        moveCriterion(root, [2], -1)
+        expect(query(root)).toBe('tag equals b and tag equals c and tag equals a')
+        expect(canMoveCriterion(root, [], 1)).toBe(false)
+    })
+
+    it('inserts and removes criteria in groups only', () => {
+        const root = parseCriterionQuery('tag equals a or not tag equals b')
+        insertCriterionAfter(root, [0], new TagCriterion('c'))
+        removeCriterionAt(root, [2])
+        expect(query(root)).toBe('tag equals a or tag startswith c')
+        expect(() => removeCriterionAt(root, [])).toThrow()
+    })
+
+    it('replaces the root', () => {
+        const root = parseCriterionQuery('tag equals a')
+        const replacement = new TagCriterion('b')
+        expect(replaceCriterionAt(root, [], replacement)).toBe(replacement)
+    })
+
+    it('wraps and unwraps criteria', () => {
+        let root = parseCriterionQuery('tag equals a and tag equals b')
+        root = wrapCriterionAt(root, [1], 'Not')
+        root = wrapCriterionAt(root, [], 'Or')
+        expect(query(root)).toBe('or(tag equals a and not tag equals b)')
+
+        root = unwrapCriterionAt(root, [])
+        root = unwrapCriterionAt(root, [1])
+        expect(query(root)).toBe('tag equals a and tag equals b')
+    })
+
+    it('unwraps groups into the enclosing group', () => {
+        let root = parseCriterionQuery('tag equals a and (tag equals b or tag equals c)')
+        root = unwrapCriterionAt(root, [1])
+        expect(query(root)).toBe('tag equals a and tag equals b and tag equals c')
+        expect(canUnwrapCriterion(root, [])).toBe(false)
+        expect(canUnwrapCriterion(root, [0])).toBe(false)
+    })
+
+    it('keeps sub-criteria when changing the type', () => {
+        const group = parseCriterionQuery('tag equals a and tag equals b')
+        expect(query(transferChildren(group, new OrCriterion([])))).toBe('tag equals a or tag equals b')
+        const single = parseCriterionQuery('not tag equals a')
+        expect(query(transferChildren(single, new OrCriterion([])))).toBe('or(tag equals a)')
+    })
+})
+
+describe('CriterionHistory', () => {
+    it('undoes and redoes recorded states', () => {
+        const root = parseCriterionQuery('tag equals a') as TagCriterion
+        const history = new CriterionHistory(root)
+        expect(history.canUndo()).toBe(false)
+
+        root.tag = 'b'
+        history.record(root)
+        history.record(root)
+        expect(history.undo()).toMatchObject({ tag: 'a' })
+        expect(history.undo()).toBeNull()
+        expect(history.redo()).toMatchObject({ tag: 'b' })
+        expect(history.canRedo()).toBe(false)
+    })
+
+    it('discards undone states on new edits', () => {
+        const root = parseCriterionQuery('tag equals a') as TagCriterion
+        const history = new CriterionHistory(root)
+        root.tag = 'b'
+        history.record(root)
+        history.undo()
+        root.tag = 'c'
+        history.record(root)
+        expect(history.canRedo()).toBe(false)
+        expect(history.undo()).toMatchObject({ tag: 'a' })
+    })
+})
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { App, TFile } from './fakes/obsidian'
+import {
+    Criterion, CriterionContext, ContentNotLoadedError, TagCriterion, TagMatchMode, FrontmatterCriterion, FrontmatterMatchMode,
+    FolderCriterion, InheritedCriterion, TitleCriterion, PathCriterion, TextMatchMode, ContentCriterion, DateCriterion, DateSource, DateMatchMode,
+    AndCriterion, OrCriterion, NotCriterion, LinkGraphCriterion, LinkDirection, ReferenceCriterion, CriterionReferenceCycleError,
+} from '../src/criterion'
+
+let app: App
+
+beforeEach(() => {
+    app = new App()
+})
+
+async function evaluate(criterion: Criterion, file: TFile): Promise<boolean> {
+    return criterion.evaluate(file, await app.vault.read(file), app.metadataCache.getFileCache(file)!)
+}
+
+function createContext(): CriterionContext {
+    return {
+        files: app.vault.getMarkdownFiles(),
+        resolvedLinks: app.metadataCache.resolvedLinks,
+        getMetadata: (file) => app.metadataCache.getFileCache(file),
+        evaluate,
+    }
+}
+
+describe('TagCriterion', () => {
+    it('matches frontmatter and inline tags by mode', async () => {
+        const file = app.addNote('note.md', 'Text #project/alpha', { frontmatter: { tags: ['Public'] } })
+        expect(await evaluate(new TagCriterion('public', TagMatchMode.Equals), file)).toBe(true)
+        expect(await evaluate(new TagCriterion('#project', TagMatchMode.StartsWith), file)).toBe(true)
+        expect(await evaluate(new TagCriterion('project', TagMatchMode.Equals), file)).toBe(false)
+        expect(await evaluate(new TagCriterion('alpha', TagMatchMode.Includes), file)).toBe(true)
+        expect(await evaluate(new TagCriterion('proj', TagMatchMode.StartsWith), file)).toBe(false)
+    })
+})
+
+describe('FrontmatterCriterion', () => {
+    const frontmatter = { publish: 'yes', priority: 3, site: { visibility: 'public' }, aliases: ['a', 'b'], empty: '' }
+
+    it.each([
+        ['publish', '', FrontmatterMatchMode.IsTrue, true],
+        ['publish', '', FrontmatterMatchMode.IsFalse, false],
+        ['priority', '2', FrontmatterMatchMode.GreaterThan, true],
+        ['priority', '2', FrontmatterMatchMode.LessThan, false],
+        ['site.visibility', 'public', FrontmatterMatchMode.Equals, true],
+        ['aliases', 'b', FrontmatterMatchMode.ListContains, true],
+        ['aliases', 'b, c', FrontmatterMatchMode.ListHasAny, true],
+        ['aliases', 'b, c', FrontmatterMatchMode.ListHasAll, false],
+        ['empty', '', FrontmatterMatchMode.IsEmpty, true],
+        ['missing', '', FrontmatterMatchMode.Exists, false],
+    ])('%s %s %s', async (key, value, mode, expected) => {
+        const file = app.addNote('note.md', '', { frontmatter })
+        expect(await evaluate(new FrontmatterCriterion(key, value, mode), file)).toBe(expected)
+    })
+})
+
+describe('pattern criteria', () => {
+    it('matches titles and paths', async () => {
+        const file = app.addNote('Drafts/Untitled 2.md', '')
+        expect(await evaluate(new TitleCriterion('Untitled*', TextMatchMode.Glob), file)).toBe(true)
+        expect(await evaluate(new PathCriterion('drafts', TextMatchMode.Contains), file)).toBe(true)
+        expect(await evaluate(new PathCriterion('^Drafts/', TextMatchMode.Regex), file)).toBe(true)
+        expect(await evaluate(new PathCriterion('Notes/**', TextMatchMode.Glob), file)).toBe(false)
+    })
+})
+
+describe('FolderCriterion', () => {
+    it.each([
+        ['Blog', true, ['Blog/Post.md', 'Blog/2024/Old.md']],
+        ['/Blog/', false, ['Blog/Post.md']],
+        ['', false, ['Root.md']],
+        ['', true, ['Root.md', 'Blog/Post.md', 'Blog/2024/Old.md', 'Blogroll/Links.md']],
+    ])('matches folder %s (recursively: %s)', async (folder, recursive, expected) => {
+        for (const path of ['Root.md', 'Blog/Post.md', 'Blog/2024/Old.md', 'Blogroll/Links.md']) app.addNote(path, '')
+        const criterion = new FolderCriterion(folder, recursive)
+        const results = await Promise.all(app.vault.getMarkdownFiles().map(async f => [f.path, await evaluate(criterion, f)] as const))
+        expect(results.filter(([, result]) => result).map(([path]) => path)).toEqual(expected)
+    })
+})
+
+describe('InheritedCriterion', () => {
+    beforeEach(() => {
+        app.addNote('Blog/Blog.md', '', { frontmatter: { publish: true } })
+        app.addNote('Blog/Post.md', '')
+        app.addNote('Blog/Drafts/_folder.md', '', { frontmatter: { publish: 'no' } })
+        app.addNote('Blog/Drafts/Draft.md', '')
+        app.addNote('Blog/Drafts/Ready.md', '', { frontmatter: { publish: true } })
+        app.addNote('Blog/Drafts/Deep/Idea.md', '')
+        app.addNote('Private/Diary.md', '')
+    })
+
+    it('inherits the value of the nearest folder unless the note sets it', async () => {
+        const criterion = new InheritedCriterion()
+        await criterion.prepare(createContext())
+        const results = await Promise.all(app.vault.getMarkdownFiles().map(async f => [f.path, await evaluate(criterion, f)] as const))
+        expect(results.filter(([, result]) => result).map(([path]) => path)).toEqual(['Blog/Blog.md', 'Blog/Post.md', 'Blog/Drafts/Ready.md'])
+    })
+
+    it('prefers marker files over folder notes', async () => {
+        app.addNote('Blog/_folder.md', '', { frontmatter: { publish: false } })
+        const criterion = new InheritedCriterion()
+        await criterion.prepare(createContext())
+        expect(await evaluate(criterion, app.vault.getAbstractFileByPath('Blog/Post.md') as TFile)).toBe(false)
+    })
+})
+
+describe('ContentCriterion', () => {
+    it('requires the note content', async () => {
+        const file = app.addNote('note.md', 'secret text')
+        const criterion = new ContentCriterion('secret')
+        expect(() => criterion.evaluate(file, null, app.metadataCache.getFileCache(file)!)).toThrow(ContentNotLoadedError)
+        expect(await evaluate(criterion, file)).toBe(true)
+    })
+
+    it('is skipped by junctions that are decided on metadata', () => {
+        const file = app.addNote('note.md', 'secret text', { frontmatter: { publish: false } })
+        const criterion = new AndCriterion([new ContentCriterion('secret'), new FrontmatterCriterion('publish', '', FrontmatterMatchMode.IsTrue)])
+        expect(criterion.evaluate(file, null, app.metadataCache.getFileCache(file)!)).toBe(false)
+    })
+})
+
+describe('DateCriterion', () => {
+    it('compares modification times and frontmatter dates', async () => {
+        const file = app.addNote('note.md', '', { frontmatter: { date: '2024-05-01' } }, { mtime: Date.now() - 2 * 24 * 60 * 60 * 1000 })
+        expect(await evaluate(new DateCriterion(DateSource.Modified, '', DateMatchMode.WithinLast, '7d'), file)).toBe(true)
+        expect(await evaluate(new DateCriterion(DateSource.Modified, '', DateMatchMode.WithinLast, '1d'), file)).toBe(false)
+        expect(await evaluate(new DateCriterion(DateSource.Frontmatter, 'date', DateMatchMode.Between, '2024-04', '2024-05'), file)).toBe(true)
+        expect(await evaluate(new DateCriterion(DateSource.Frontmatter, 'date', DateMatchMode.Before, '2024-05-01'), file)).toBe(false)
+    })
+})
+
+describe('junctions', () => {
+    it('combines child results', async () => {
+        const file = app.addNote('note.md', '#public')
+        const isPublic = new TagCriterion('public')
+        const isDraft = new TagCriterion('draft')
+        expect(await evaluate(new AndCriterion([isPublic, new NotCriterion(isDraft)]), file)).toBe(true)
+        expect(await evaluate(new OrCriterion([isDraft]), file)).toBe(false)
+        expect(await evaluate(new AndCriterion([]), file)).toBe(true)
+    })
+})
+
+describe('LinkGraphCriterion', () => {
+    beforeEach(() => {
+        app.addNote('Index.md', '#public [[A]]')
+        app.addNote('A.md', '[[B]]')
+        app.addNote('B.md', '[[Index]]')
+        app.addNote('C.md', '[[A]]')
+        app.metadataCache.refresh()
+    })
+
+    it.each([
+        [LinkDirection.Outgoing, 1, ['A.md', 'Index.md']],
+        [LinkDirection.Outgoing, 2, ['A.md', 'B.md', 'Index.md']],
+        [LinkDirection.Backlinks, 1, ['B.md', 'Index.md']],
+        [LinkDirection.Both, 2, ['A.md', 'B.md', 'C.md', 'Index.md']],
+    ])('follows %s up to %i hops', async (direction, maxDepth, expected) => {
+        const criterion = new LinkGraphCriterion(new TagCriterion('public'), maxDepth, direction)
+        await criterion.prepare(createContext())
+        const results = await Promise.all(app.vault.getMarkdownFiles().map(async f => [f.path, await evaluate(criterion, f)] as const))
+        const matches = results.filter(([, result]) => result).map(([path]) => path)
+        expect(matches.sort()).toEqual(expected)
+    })
+})
+
+describe('serialization', () => {
+    it('round-trips a criterion tree', () => {
+        const criterion = new AndCriterion([
+            new TagCriterion('public', TagMatchMode.Equals),
+            new NotCriterion(new OrCriterion([new PathCriterion('_*', TextMatchMode.Glob), new ContentCriterion('TODO')])),
+            new LinkGraphCriterion(new FrontmatterCriterion('publish', '', FrontmatterMatchMode.IsTrue), 2, LinkDirection.Backlinks),
+            new DateCriterion(DateSource.Created, '', DateMatchMode.After, '2024'),
+        ])
+        const data = criterion.serialize()
+        expect(Criterion.deserialize(JSON.parse(JSON.stringify(data)) as typeof data).serialize()).toEqual(data)
+    })
+
+    it('resolves references and detects cycles', () => {
+        const definitions = {
+            Public: { type: 'Tag' as const, tag: 'public', matchMode: TagMatchMode.Equals },
+            Loop: { type: 'Not' as const, criterion: { type: 'Reference', name: 'Loop' } },
+        }
+        const reference = Criterion.deserialize({ type: 'Reference', name: 'Public' }, { definitions }) as ReferenceCriterion
+        expect(reference.target).toBeInstanceOf(TagCriterion)
+        expect(() => Criterion.deserialize({ type: 'Reference', name: 'Loop' }, { definitions })).toThrow(CriterionReferenceCycleError)
+    })
+})
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { parseDateSpan, parseDuration, addDuration, isBeforeSpan, isAfterSpan } from '../src/date-parsing'
+
+const now = new Date(2024, 4, 15, 12, 0).getTime()
+
+describe('parseDateSpan', () => {
+    it.each([
+        ['2024', new Date(2024, 0, 1), new Date(2025, 0, 1)],
+        ['2024-05', new Date(2024, 4, 1), new Date(2024, 5, 1)],
+        ['2024/05/01', new Date(2024, 4, 1), new Date(2024, 4, 2)],
+        ['01.05.2024', new Date(2024, 4, 1), new Date(2024, 4, 2)],
+        ['today', new Date(2024, 4, 15), new Date(2024, 4, 16)],
+        ['yesterday', new Date(2024, 4, 14), new Date(2024, 4, 15)],
+        ['2 weeks ago', new Date(2024, 4, 1, 12), new Date(2024, 4, 1, 12)],
+        ['-1 month', new Date(2024, 3, 15, 12), new Date(2024, 3, 15, 12)],
+        ['2024-05-01 08:30', new Date(2024, 4, 1, 8, 30), new Date(2024, 4, 1, 8, 30)],
+    ])('parses %s', (value, start, end) => {
+        expect(parseDateSpan(value, now)).toEqual({ start: start.getTime(), end: end.getTime() })
+    })
+
+    it('interprets small numbers as seconds', () => {
+        expect(parseDateSpan(1700000000, now)?.start).toBe(1700000000000)
+        expect(parseDateSpan(1700000000000, now)?.start).toBe(1700000000000)
+    })
+
+    it('reads 4-digit numbers as years, as YAML parses `date: 2024` as a number', () => {
+        expect(parseDateSpan(2024, now)).toEqual(parseDateSpan('2024', now))
+        expect(parseDateSpan(2024, now)?.start).toBe(new Date(2024, 0, 1).getTime())
+    })
+
+    it.each(['', 'soon', '2024-02-31', '2024-13', '-5 fortnights'])('rejects %s', (value) => {
+        expect(parseDateSpan(value, now)).toBeNull()
+    })
+})
+
+describe('durations', () => {
+    it('parses units and aliases', () => {
+        expect(parseDuration('30d')).toEqual({ amount: 30, unit: 'd' })
+        expect(parseDuration('6 Months')).toEqual({ amount: 6, unit: 'month' })
+        expect(parseDuration('3 decades')).toBeNull()
+    })
+
+    it('adds calendar-aware durations', () => {
+        expect(addDuration(new Date(2024, 0, 31).getTime(), { amount: 1, unit: 'y' }, 1)).toBe(new Date(2025, 0, 31).getTime())
+    })
+})
+
+describe('span comparisons', () => {
+    it('treats day spans as a whole', () => {
+        const span = parseDateSpan('2024-05-01', now)!
+        expect(isBeforeSpan(new Date(2024, 4, 1, 23).getTime(), span)).toBe(false)
+        expect(isAfterSpan(new Date(2024, 4, 1, 23).getTime(), span)).toBe(false)
+        expect(isAfterSpan(new Date(2024, 4, 2).getTime(), span)).toBe(true)
+    })
+})
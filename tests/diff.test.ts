@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import { diffLines, getDiffHunks, isBinaryContent } from '../src/diff'
+
+const format = (text: string, other: string) => diffLines(text, other).map(line => `${line.type[0]} ${line.text}`)
+
+describe('diffLines', () => {
+    it('marks added, removed and unchanged lines', () => {
+        expect(format('a\nb\nc\nd\n', 'a\nc\nx\nd\ne')).toEqual(['u a', 'r b', 'u c', 'a x', 'u d', 'a e'])
+    })
+
+    it('lists removed lines before the lines that replace them', () => {
+        expect(diffLines('a\nold\nb', 'a\nnew\nb')).toEqual([
+            { type: 'unchanged', text: 'a', oldLine: 1, newLine: 1 },
+            { type: 'removed', text: 'old', oldLine: 2 },
+            { type: 'added', text: 'new', newLine: 2 },
+            { type: 'unchanged', text: 'b', oldLine: 3, newLine: 3 },
+        ])
+    })
+
+    it('compares empty texts', () => {
+        expect(format('', 'a\r\nb')).toEqual(['a a', 'a b'])
+        expect(format('a', '')).toEqual(['r a'])
+        expect(diffLines('', '')).toEqual([])
+    })
+})
+
+describe('getDiffHunks', () => {
+    const lines = (count: number, changed: number[]) =>
+        Array.from({ length: count }, (_, i) => changed.includes(i + 1) ? `changed ${i + 1}` : `line ${i + 1}`).join('\n')
+
+    it('groups changes with context lines', () => {
+        const hunks = getDiffHunks(diffLines(lines(20, []), lines(20, [2, 5, 15])))
+        expect(hunks.map(h => [h.oldStart, h.oldLines, h.newStart, h.newLines])).toEqual([[1, 8, 1, 8], [12, 7, 12, 7]])
+        expect(hunks[1]!.lines.map(line => line.text)).toEqual(['line 12', 'line 13', 'line 14', 'line 15', 'changed 15', 'line 16', 'line 17', 'line 18'])
+    })
+
+    it('returns no hunks for identical lines', () => {
+        expect(getDiffHunks(diffLines('a\n', 'a'))).toEqual([])
+    })
+
+    it('starts empty sides at the line before', () => {
+        expect(getDiffHunks(diffLines('', 'a'))[0]).toMatchObject({ oldStart: 0, oldLines: 0, newStart: 1, newLines: 1 })
+    })
+})
+
+describe('isBinaryContent', () => {
+    it('detects NUL bytes', () => {
+        expect(isBinaryContent(new Uint8Array([0x89, 0x50, 0x00]))).toBe(true)
+        expect(isBinaryContent(new TextEncoder().encode('text'))).toBe(false)
+    })
+})
@@ -0,0 +1,3 @@
+export const dialog = {
+    showOpenDialog: () => Promise.resolve({ canceled: true, filePaths: [] as string[] }),
+}
@@ -0,0 +1,310 @@
+/**
+ * In-memory stand-in for the `obsidian` module, which only ships type definitions.
+ * Tests import `obsidian` as usual; vitest.config.mts aliases it to this file.
+ */
+import type { CachedMetadata, FileStats, LinkCache, EmbedCache, TagCache, Pos } from 'obsidian'
+import { parse, stringify } from 'yaml'
+
+// Functions
+
+export function normalizePath(path: string): string {
+    return path.replace(/\\/g, '/').replace(/\/+/g, '/').replace(/^\/|\/$/g, '')
+}
+
+export function parseYaml(text: string): unknown {
+    return parse(text)
+}
+
+export function stringifyYaml(value: unknown): string {
+    return stringify(value)
+}
+
+// Reads the `tags` and `tag` properties, given as lists or as comma- or space-separated strings, as Obsidian does
+export function parseFrontMatterTags(frontmatter: Record<string, unknown> | null | undefined): string[] | null {
+    const tags: string[] = []
+    for (const [key, value] of Object.entries(frontmatter ?? {})) {
+        if (!/^tags?$/i.test(key)) continue
+        const values = Array.isArray(value) ? value as unknown[] : [value]
+        for (const element of values) {
+            if (typeof element !== 'string' && typeof element !== 'number') continue
+            for (const tag of String(element).split(/[,\s]+/)) {
+                if (tag.replace(/^#/, '')) tags.push(tag.startsWith('#') ? tag : `#${tag}`)
+            }
+        }
+    }
+    return tags.length > 0 ? tags : null
+}
+
+export function getAllTags(cache: CachedMetadata): string[] | null {
+    const tags = [...(parseFrontMatterTags(cache.frontmatter) ?? []), ...(cache.tags ?? []).map(tagCache => tagCache.tag)]
+    return tags.length > 0 ? tags : null
+}
+
+export interface Debouncer<T extends unknown[]> {
+    (...args: T): void
+    cancel(): Debouncer<T>
+}
+
+// Runs the callback immediately so that tests need no timers
+export function debounce<T extends unknown[]>(callback: (...args: T) => unknown): Debouncer<T> {
+    const debouncer = (...args: T) => { callback(...args) }
+    debouncer.cancel = () => debouncer
+    return debouncer as Debouncer<T>
+}
+
+// Vault files
+
+export class TAbstractFile {
+    name: string
+    constructor(public path: string) {
+        this.name = path.split('/').pop()!
+    }
+}
+
+export class TFile extends TAbstractFile {
+    basename: string
+    extension: string
+    stat: FileStats
+
+    constructor(path: string, stat: Partial<FileStats> = {}) {
+        super(path)
+        const dotIndex = this.name.lastIndexOf('.')
+        this.basename = dotIndex > 0 ? this.name.slice(0, dotIndex) : this.name
+        this.extension = dotIndex > 0 ? this.name.slice(dotIndex + 1) : ''
+        this.stat = { ctime: 0, mtime: 0, size: 0, ...stat }
+    }
+}
+
+export class TFolder extends TAbstractFile { }
+
+const POSITION: Pos = { start: { line: 0, col: 0, offset: 0 }, end: { line: 0, col: 0, offset: 0 } }
+
+function parseWikilinks(content: string, embeds: boolean): (LinkCache | EmbedCache)[] {
+    const regex = embeds ? /!\[\[([^\]|]+)(?:\|([^\]]*))?\]\]/g : /(?<!!)\[\[([^\]|]+)(?:\|([^\]]*))?\]\]/g
+    return [...content.matchAll(regex)].map(match => ({
+        link: match[1]!,
+        original: match[0],
+        displayText: match[2] ?? match[1]!,
+        position: POSITION,
+    }))
+}
+
+// Inline tags outside fenced code, as a rough approximation of Obsidian's parser
+function parseInlineTags(content: string): TagCache[] {
+    const tags: TagCache[] = []
+    let inCode = false
+    for (const line of content.split('\n')) {
+        if (line.trim().startsWith('```')) inCode = !inCode
+        if (inCode) continue
+        for (const match of line.matchAll(/(?:^|\s)(#[^\s#.,;:!?()[\]{}"'`]+)/gu)) {
+            if (!/^#\d+$/.test(match[1]!)) tags.push({ tag: match[1]!, position: POSITION })
+        }
+    }
+    return tags
+}
+
+/**
+ * Metadata cache computed from the files of a FakeVault. Links, embeds and inline tags are parsed from
+ * note content unless given explicitly; frontmatter must be given explicitly.
+ */
+export class MetadataCache {
+    resolvedLinks: Record<string, Record<string, number>> = {}
+    private metadata = new Map<string, CachedMetadata>()
+
+    constructor(private vault: Vault) { }
+
+    getFileCache(file: TFile): CachedMetadata | null {
+        return this.metadata.get(file.path) ?? null
+    }
+
+    getFirstLinkpathDest(linkpath: string, _sourcePath: string): TFile | null {
+        const files = this.vault.getFiles()
+        return files.find(f => f.path === linkpath)
+            ?? files.find(f => f.path === `${linkpath}.md`)
+            ?? files.find(f => f.name === linkpath || (f.extension === 'md' && f.basename === linkpath))
+            ?? null
+    }
+
+    /** Sets the metadata of a file and updates the resolved links. */
+    setFileCache(file: TFile, metadata: CachedMetadata) {
+        this.metadata.set(file.path, metadata)
+        const destinations: Record<string, number> = {}
+        for (const link of [...(metadata.links ?? []), ...(metadata.embeds ?? [])]) {
+            const destination = this.getFirstLinkpathDest(link.link.split('#')[0]!, file.path)
+            if (destination) destinations[destination.path] = (destinations[destination.path] ?? 0) + 1
+        }
+        this.resolvedLinks[file.path] = destinations
+    }
+
+    /** Recomputes resolved links, e.g. after link targets were added. */
+    refresh() {
+        for (const [path, metadata] of this.metadata) {
+            this.setFileCache(this.vault.getAbstractFileByPath(path) as TFile, metadata)
+        }
+    }
+}
+
+/** Files outside the vault's notes, such as plugin data. */
+export class DataAdapter {
+    files = new Map<string, string>()
+
+    constructor(private vault: Vault) { }
+
+    exists(path: string): Promise<boolean> {
+        return Promise.resolve(this.files.has(path))
+    }
+
+    read(path: string): Promise<string> {
+        const data = this.files.get(path)
+        return data === undefined ? Promise.reject(new Error(`File not found: ${path}`)) : Promise.resolve(data)
+    }
+
+    write(path: string, data: string): Promise<void> {
+        const exists = this.files.has(path)
+        this.files.set(path, data)
+        this.vault.trigger(exists ? 'modify' : 'create', new TFile(path))
+        return Promise.resolve()
+    }
+}
+
+type EventCallback = (...args: unknown[]) => unknown
+
+export class Vault {
+    configDir = '.obsidian'
+    adapter = new DataAdapter(this)
+    private handlers = new Map<string, EventCallback[]>()
+    private files = new Map<string, { file: TFile, data: string | ArrayBuffer }>()
+
+    getFiles(): TFile[] {
+        return [...this.files.values()].map(entry => entry.file)
+    }
+
+    getMarkdownFiles(): TFile[] {
+        return this.getFiles().filter(f => f.extension === 'md')
+    }
+
+    getAbstractFileByPath(path: string): TAbstractFile | null {
+        return this.files.get(path)?.file ?? null
+    }
+
+    read(file: TFile): Promise<string> {
+        return Promise.resolve(this.getData(file) as string)
+    }
+
+    cachedRead(file: TFile): Promise<string> {
+        return this.read(file)
+    }
+
+    readBinary(file: TFile): Promise<ArrayBuffer> {
+        const data = this.getData(file)
+        return Promise.resolve(typeof data === 'string' ? new TextEncoder().encode(data).buffer as ArrayBuffer : data)
+    }
+
+    on(name: string, callback: EventCallback) {
+        this.handlers.set(name, [...(this.handlers.get(name) ?? []), callback])
+        return { name, callback }
+    }
+
+    trigger(name: string, ...args: unknown[]) {
+        this.handlers.get(name)?.forEach(callback => callback(...args))
+    }
+
+    /** Adds or replaces a file. */
+    setFile(path: string, data: string | ArrayBuffer, stat: Partial<FileStats> = {}): TFile {
+        const file = new TFile(path, stat)
+        this.files.set(path, { file, data })
+        return file
+    }
+
+    private getData(file: TFile): string | ArrayBuffer {
+        const entry = this.files.get(file.path)
+        if (!entry) throw new Error(`File not found: ${file.path}`)
+        return entry.data
+    }
+}
+
+export class Workspace {
+    activeFile: TFile | null = null
+
+    getActiveFile(): TFile | null {
+        return this.activeFile
+    }
+
+    on(name: string, callback: EventCallback) {
+        return { name, callback }
+    }
+}
+
+export class App {
+    vault = new Vault()
+    metadataCache = new MetadataCache(this.vault)
+    workspace = new Workspace()
+
+    /**
+     * Adds a note, deriving links, embeds and inline tags from its content unless given in the metadata.
+     */
+    addNote(path: string, content: string, metadata: CachedMetadata = {}, stat: Partial<FileStats> = {}): TFile {
+        const file = this.vault.setFile(path, content, stat)
+        this.metadataCache.setFileCache(file, {
+            links: parseWikilinks(content, false),
+            embeds: parseWikilinks(content, true),
+            tags: parseInlineTags(content),
+            ...metadata,
+        })
+        return file
+    }
+
+    addBinaryFile(path: string, data: Uint8Array, stat: Partial<FileStats> = {}): TFile {
+        return this.vault.setFile(path, data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer, stat)
+    }
+}
+
+// Plugin and UI
+
+/** Messages of all notices shown, for assertions in tests. */
+export const notices: string[] = []
+
+export class Notice {
+    constructor(message: string) {
+        notices.push(message)
+    }
+}
+
+export class Plugin {
+    private data: unknown = null
+
+    constructor(public app: App, public manifest: { id: string, dir?: string }) { }
+
+    loadData(): Promise<unknown> {
+        return Promise.resolve(this.data)
+    }
+
+    saveData(data: unknown): Promise<void> {
+        this.data = JSON.parse(JSON.stringify(data))
+        return Promise.resolve()
+    }
+
+    addCommand(command: unknown) { return command }
+    addRibbonIcon() { return null }
+    addSettingTab() { }
+    registerEvent() { }
+}
+
+export class Modal {
+    constructor(public app: App) { }
+    open() { }
+    close() { }
+}
+
+export class PluginSettingTab {
+    // The tab is never shown in tests
+    containerEl = { isConnected: false }
+
+    constructor(public app: App, public plugin: Plugin) { }
+}
+
+export class Setting { }
+export class ButtonComponent { }
+export class DropdownComponent { }
+export class TextComponent { }
+export class SearchComponent { }
@@ -0,0 +1,55 @@
+import { execFileSync } from 'child_process'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+/**
+ * A temporary git repository with a bare `origin` remote on branch `main`.
+ */
+export interface GitRepoFixture {
+    path: string
+    remotePath: string
+    git(...args: string[]): string
+    writeFile(relativePath: string, content: string): void
+    readFile(relativePath: string): string
+    readBinaryFile(relativePath: string): Uint8Array
+    exists(relativePath: string): boolean
+    // Lists committed files on the given ref
+    listFiles(ref?: string): string[]
+    cleanup(): void
+}
+
+export function createGitRepo(): GitRepoFixture {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'selective-publisher-'))
+    const repoPath = path.join(root, 'repo')
+    const remotePath = path.join(root, 'remote.git')
+
+    const run = (cwd: string, args: string[]) => execFileSync('git', args, { cwd, encoding: 'utf8', stdio: 'pipe' })
+    fs.mkdirSync(repoPath)
+    run(root, ['init', '--bare', '-b', 'main', remotePath])
+    run(repoPath, ['init', '-b', 'main'])
+    run(repoPath, ['config', 'user.name', 'Test'])
+    run(repoPath, ['config', 'user.email', 'test@example.com'])
+    run(repoPath, ['config', 'commit.gpgsign', 'false'])
+    run(repoPath, ['remote', 'add', 'origin', remotePath])
+    fs.writeFileSync(path.join(repoPath, '.gitkeep'), '')
+    run(repoPath, ['add', '.'])
+    run(repoPath, ['commit', '-m', 'Initial commit'])
+    run(repoPath, ['push', 'origin', 'main'])
+
+    return {
+        path: repoPath,
+        remotePath,
+        git: (...args) => run(repoPath, args),
+        writeFile(relativePath, content) {
+            const fullPath = path.join(repoPath, relativePath)
+            fs.mkdirSync(path.dirname(fullPath), { recursive: true })
+            fs.writeFileSync(fullPath, content)
+        },
+        readFile: relativePath => fs.readFileSync(path.join(repoPath, relativePath), 'utf8'),
+        readBinaryFile: relativePath => new Uint8Array(fs.readFileSync(path.join(repoPath, relativePath))),
+        exists: relativePath => fs.existsSync(path.join(repoPath, relativePath)),
+        listFiles: (ref = 'HEAD') => run(repoPath, ['ls-tree', '-r', '--name-only', ref]).split('\n').filter(f => f.length > 0),
+        cleanup: () => fs.rmSync(root, { recursive: true, force: true }),
+    }
+}
@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest'
+import { parseCriterionQuery } from '../src/criterion-query'
+import { suggestFrontmatterUpdate } from '../src/frontmatter-update-modal'
+
+describe('suggestFrontmatterUpdate', () => {
+    it('derives the property from frontmatter criteria', () => {
+        const criterion = parseCriterionQuery('tag equals blog and frontmatter status equals done')
+        expect(suggestFrontmatterUpdate(criterion, true)).toEqual({ key: 'status', value: 'done' })
+        expect(suggestFrontmatterUpdate(criterion, false)).toEqual({ key: 'publish', value: false })
+    })
+
+    it('takes negation into account', () => {
+        const criterion = parseCriterionQuery('not frontmatter private is true')
+        expect(suggestFrontmatterUpdate(criterion, true)).toEqual({ key: 'private', value: false })
+        expect(suggestFrontmatterUpdate(criterion, false)).toEqual({ key: 'private', value: true })
+    })
+})
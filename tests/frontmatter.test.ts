@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { TFile, parseYaml } from './fakes/obsidian'
+import { transformFrontmatter, parseFrontmatterRenames, FrontmatterRules, FrontmatterKeyFilter, DEFAULT_FRONTMATTER_RULES } from '../src/frontmatter'
+
+const file = new TFile('Notes/My note.md', { ctime: Date.UTC(2024, 0, 2), mtime: Date.UTC(2024, 4, 6, 12) })
+const note = '---\ntitle: Custom\nreviewer: Alice\nsource-notes: ["[[Private]]"]\ncreated: 2024-01-01\n---\nBody\n'
+
+function transform(content: string, rules: Partial<FrontmatterRules>) {
+    return transformFrontmatter(content, file, { tags: [{ tag: '#inline', position: { start: { line: 0, col: 0, offset: 0 }, end: { line: 0, col: 0, offset: 0 } } }], frontmatter: { tags: ['Project'] } }, { ...DEFAULT_FRONTMATTER_RULES, ...rules })
+}
+
+function frontmatterOf(content: string): unknown {
+    return parseYaml(content.split('---\n')[1]!)
+}
+
+describe('transformFrontmatter', () => {
+    it('leaves notes unchanged without rules', () => {
+        expect(transform(note, {})).toBe(note)
+    })
+
+    it('removes denied keys and renames keys', () => {
+        const result = transform(note, { keyFilter: FrontmatterKeyFilter.DenyList, keys: 'reviewer, source-notes', renames: 'created: date\ninvalid line' })
+        expect(frontmatterOf(result)).toEqual({ title: 'Custom', date: '2024-01-01' })
+        expect(result.endsWith('---\nBody\n')).toBe(true)
+    })
+
+    it('keeps only allowed keys and removes empty frontmatter', () => {
+        expect(frontmatterOf(transform(note, { keyFilter: FrontmatterKeyFilter.AllowList, keys: 'title' }))).toEqual({ title: 'Custom' })
+        expect(transform(note, { keyFilter: FrontmatterKeyFilter.AllowList, keys: '' })).toBe('Body\n')
+    })
+
+    it('adds computed keys that the note does not set', () => {
+        const result = transform('Body', { titleKey: 'title', createdKey: 'date', modifiedKey: 'lastmod', tagsKey: 'tags' })
+        expect(frontmatterOf(result)).toEqual({
+            title: 'My note',
+            date: '2024-01-02T00:00:00.000Z',
+            lastmod: '2024-05-06T12:00:00.000Z',
+            tags: ['project', 'inline'],
+        })
+        expect(result.endsWith('---\nBody')).toBe(true)
+        expect(frontmatterOf(transform(note, { titleKey: 'title' }))).toMatchObject({ title: 'Custom' })
+    })
+
+    it('quotes values so that the output is valid YAML', () => {
+        const result = transform('---\nkey: "a: b #c"\n---\n', { titleKey: 'title' })
+        expect(frontmatterOf(result)).toEqual({ key: 'a: b #c', title: 'My note' })
+    })
+
+    it('rejects frontmatter that is not a mapping', () => {
+        expect(() => transform('---\n- a\n---\n', { titleKey: 'title' })).toThrow()
+    })
+})
+
+describe('parseFrontmatterRenames', () => {
+    it('parses old: new lines', () => {
+        expect([...parseFrontmatterRenames(' a : b \n:c\nd:\ne: f')]).toEqual([['a', 'b'], ['e', 'f']])
+    })
+})
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { execFileSync } from 'child_process'
+import { createGitRepo, GitRepoFixture } from './fixtures/git-repo'
+import { GitHelper, isMergeConflictError } from '../src/git-service'
+
+let repo: GitRepoFixture
+
+beforeEach(() => {
+    repo = createGitRepo()
+})
+
+afterEach(() => {
+    repo.cleanup()
+})
+
+describe('GitHelper', () => {
+    it('validates repositories', async () => {
+        expect(await GitHelper.validateRepo(repo.path)).toEqual({ isValid: true })
+
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'selective-publisher-'))
+        try {
+            const result = await GitHelper.validateRepo(directory)
+            expect(result.isValid).toBe(false)
+            expect(result.error).toBeDefined()
+        } finally {
+            fs.rmSync(directory, { recursive: true, force: true })
+        }
+    })
+
+    it('lists branches', async () => {
+        repo.git('branch', 'gh-pages')
+        expect(await GitHelper.getBranches(repo.path)).toEqual(['gh-pages', 'main'])
+    })
+
+    it('stages, commits and pushes changes', async () => {
+        repo.writeFile('Note.md', 'text')
+        expect(await GitHelper.hasUncommittedChanges(repo.path)).toBe(true)
+
+        await GitHelper.add(repo.path)
+        await GitHelper.commit(repo.path, 'Publish')
+        await GitHelper.push(repo.path, 'main')
+
+        expect(await GitHelper.hasUncommittedChanges(repo.path)).toBe(false)
+        expect(repo.git('log', '-1', '--format=%s').trim()).toBe('Publish')
+        expect(repo.listFiles('origin/main')).toContain('Note.md')
+    })
+
+    it('stages and commits only the given paths', async () => {
+        repo.writeFile('Old.md', 'old')
+        await GitHelper.add(repo.path)
+        await GitHelper.commit(repo.path, 'Add old note')
+        repo.writeFile('Selected.md', 'text')
+        repo.writeFile('Other.md', 'text')
+        fs.rmSync(path.join(repo.path, 'Old.md'))
+
+        // Paths that git does not know are skipped
+        const paths = ['Selected.md', 'Old.md', 'Missing.md']
+        await GitHelper.add(repo.path, paths)
+        await GitHelper.commit(repo.path, 'Partial', paths)
+
+        expect(repo.listFiles().sort()).toEqual(['.gitkeep', 'Selected.md'])
+        expect(repo.git('status', '--porcelain').trim()).toBe('?? Other.md')
+    })
+
+    it('commits selected deletions in a publishing folder below the repository root', async () => {
+        repo.writeFile('site/Old.md', 'old')
+        repo.writeFile('site/Kept.md', 'kept')
+        repo.git('add', '.')
+        repo.git('commit', '-m', 'Add site')
+        fs.rmSync(path.join(repo.path, 'site/Old.md'))
+        fs.rmSync(path.join(repo.path, 'site/Kept.md'))
+
+        const sitePath = path.join(repo.path, 'site')
+        await GitHelper.add(sitePath, ['Old.md'])
+        await GitHelper.commit(sitePath, 'Delete old note', ['Old.md'])
+
+        expect(repo.listFiles().sort()).toEqual(['.gitkeep', 'site/Kept.md'])
+    })
+
+    it('treats paths literally rather than as patterns', async () => {
+        repo.writeFile('Note[1].md', 'selected')
+        repo.writeFile('Note1.md', 'other')
+        repo.writeFile(':(glob)*.md', 'magic')
+
+        await GitHelper.add(repo.path, ['Note[1].md'])
+        await GitHelper.commit(repo.path, 'Partial', ['Note[1].md'])
+
+        expect(repo.listFiles().sort()).toEqual(['.gitkeep', 'Note[1].md'])
+        expect(repo.git('status', '--porcelain', '-z').split('\0').filter(Boolean).sort()).toEqual(['?? :(glob)*.md', '?? Note1.md'])
+    })
+
+    it('ignores commits without changes', async () => {
+        await expect(GitHelper.commit(repo.path, 'Nothing')).resolves.toBeUndefined()
+        expect(repo.git('log', '-1', '--format=%s').trim()).toBe('Initial commit')
+    })
+
+    it('pulls changes and reports merge conflicts', async () => {
+        const clonePath = path.join(path.dirname(repo.path), 'clone')
+        const git = (...args: string[]) => execFileSync('git', args, { cwd: clonePath, stdio: 'pipe' })
+        execFileSync('git', ['clone', '-q', repo.remotePath, clonePath], { stdio: 'pipe' })
+        git('config', 'user.name', 'Other')
+        git('config', 'user.email', 'other@example.com')
+        fs.writeFileSync(path.join(clonePath, 'Note.md'), 'remote')
+        git('add', '.')
+        git('commit', '-m', 'Remote change')
+        git('push', 'origin', 'main')
+
+        repo.git('config', 'pull.rebase', 'false')
+        repo.writeFile('Other.md', 'local')
+        await GitHelper.pull(repo.path, 'main')
+        expect(repo.readFile('Note.md')).toBe('remote')
+
+        fs.writeFileSync(path.join(clonePath, 'Note.md'), 'remote 2')
+        git('commit', '-am', 'Remote change 2')
+        git('push', 'origin', 'main')
+        repo.writeFile('Note.md', 'local')
+        await GitHelper.add(repo.path)
+        await GitHelper.commit(repo.path, 'Local change')
+        await expect(GitHelper.pull(repo.path, 'main')).rejects.toThrow('Merge conflict detected')
+    })
+
+    it('detects merge conflicts in the output of failed commands', () => {
+        const failure = (output: { stdout?: string, stderr?: string }) => Object.assign(new Error('Command failed: git pull origin main'), output)
+        expect(isMergeConflictError(failure({ stdout: 'CONFLICT (content): Merge conflict in Note.md\n', stderr: '' }))).toBe(true)
+        expect(isMergeConflictError(failure({ stdout: '', stderr: 'CONFLICT (modify/delete): Note.md deleted in HEAD\n' }))).toBe(true)
+        expect(isMergeConflictError(failure({ stdout: '', stderr: "fatal: couldn't find remote ref main\n" }))).toBe(false)
+        expect(isMergeConflictError('CONFLICT')).toBe(true)
+    })
+
+    it('formats errors with the repository path', async () => {
+        await expect(GitHelper.push(repo.path, 'missing-branch')).rejects.toThrow(`Publishing path: ${repo.path}`)
+    })
+})
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { TFile } from './fakes/obsidian'
+import { transformLinks, slugifyHeading, LinkRules, LinkResolver, DEFAULT_LINK_RULES, UnpublishedLinkMode } from '../src/links'
+
+const files = ['Notes/Public.md', 'Notes/Private.md', 'Other/Public note.md', 'Attachments/image.png'].map(p => new TFile(p))
+const resolve: LinkResolver = (linkpath) => files.find(f => f.path === linkpath || f.path === `${linkpath}.md` || f.basename === linkpath || f.name === linkpath) ?? null
+const published = new Map(['Notes/Public.md', 'Other/Public note.md', 'Attachments/image.png'].map(p => [p, p]))
+
+function transform(content: string, rules: Partial<LinkRules> = {}, repoPaths: Map<string, string> = published) {
+    return transformLinks(content, 'Notes/Public.md', resolve, repoPaths, { ...DEFAULT_LINK_RULES, ...rules })
+}
+
+describe('transformLinks', () => {
+    it('replaces links to unpublished and missing notes with their text', () => {
+        const result = transform('See [[Private]], [[Private|an alias]], [[Missing#Part]] and [text](Private.md). ![[Private]]')
+        expect(result.content).toBe('See Private, an alias, Missing > Part and text. ')
+        expect(result.unpublishedLinks).toEqual(['[[Private]]', '[[Private|an alias]]', '[[Missing#Part]]', '[text](Private.md)', '![[Private]]'])
+    })
+
+    it('replaces links to unpublished notes with a placeholder', () => {
+        const result = transform('[[Private|secret]] and ![[Private]]', { unpublishedLinks: UnpublishedLinkMode.Placeholder, placeholder: '[{text}]' })
+        expect(result.content).toBe('[secret] and [Private]')
+        // The link text is inserted as it is, not as a replacement pattern
+        expect(transform("[[Private|$& and $']]", { unpublishedLinks: UnpublishedLinkMode.Placeholder, placeholder: '[{text}]' }).content).toBe("[$& and $']")
+    })
+
+    it('keeps links to published notes, URLs and links in code', () => {
+        const content = '[[Public note]] [[#Heading]] [site](https://example.com) `[[Private]]`\n```\n[[Private]]\n```'
+        const result = transform(content)
+        expect(result.content).toBe(content)
+        expect(result.unpublishedLinks).toEqual([])
+    })
+
+    it('converts wikilinks to relative markdown links', () => {
+        const result = transform('[[Public note#My Heading!|text]] [[Public]] ![[image.png]] ![[Public note]] [[Public note#^block]]', { convertToMarkdownLinks: true })
+        expect(result.content).toBe('[text](../Other/Public%20note.md#my-heading) [Public](Public.md) ![image.png](../Attachments/image.png) [Public note](../Other/Public%20note.md) [Public note > ^block](../Other/Public%20note.md)')
+    })
+
+    it('handles wikilinks with escaped pipes in tables', () => {
+        const result = transform('| [[Private\\|secret]] | [[Public note\\|text]] |', { convertToMarkdownLinks: true })
+        expect(result.content).toBe('| secret | [text](../Other/Public%20note.md) |')
+        expect(result.unpublishedLinks).toEqual(['[[Private\\|secret]]'])
+    })
+
+    it('uses the repository paths of the source and target', () => {
+        const repoPaths = new Map([['Notes/Public.md', 'public.md'], ['Other/Public note.md', 'posts/public-note.md'], ['Attachments/image.png', 'assets/image.png']])
+        const result = transform('[[Public note]] [link](Other/Public%20note.md#part) ![[image.png]]', { convertToMarkdownLinks: true }, repoPaths)
+        expect(result.content).toBe('[Public note](posts/public-note.md) [link](posts/public-note.md#part) ![image.png](assets/image.png)')
+        expect(transform('[[Public note]]', {}, repoPaths).content).toBe('[[Public note]]')
+    })
+})
+
+describe('slugifyHeading', () => {
+    it('creates anchors like static site generators', () => {
+        expect(slugifyHeading(' Über uns: 2024 Notes ')).toBe('über-uns-2024-notes')
+    })
+})
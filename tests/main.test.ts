@@ -0,0 +1,270 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { App, TFile, notices } from './fakes/obsidian'
+import { createGitRepo, GitRepoFixture } from './fixtures/git-repo'
+import SelectivePublisherPlugin from '../src/main'
+import { SETTINGS_VERSION } from '../src/settings-schema'
+import { Criterion } from '../src/criterion'
+
+let app: App
+let repo: GitRepoFixture
+
+async function createPlugin(settings: Record<string, unknown>): Promise<SelectivePublisherPlugin> {
+    const plugin = new SelectivePublisherPlugin(app, { id: 'selective-publisher' })
+    await plugin.saveData({ repo: repo.path, showPreviewBeforePublishing: false, ...settings })
+    await plugin.onload()
+    return plugin
+}
+
+beforeEach(() => {
+    app = new App()
+    repo = createGitRepo()
+    app.addNote('Public.md', '#public [[Linked]] ![[image.png]]')
+    app.addNote('Linked.md', 'linked')
+    app.addNote('Private.md', '#public secret', { frontmatter: { publish: false } })
+    app.addNote('Drafts/_Draft.md', '#public')
+    app.addBinaryFile('image.png', new Uint8Array([1, 2, 3]))
+    app.addBinaryFile('unused.png', new Uint8Array([4]))
+    app.addBinaryFile('refs.bib', new Uint8Array([5]))
+    app.metadataCache.refresh()
+})
+
+afterEach(() => {
+    repo.cleanup()
+})
+
+describe('SelectivePublisherPlugin', () => {
+    const criterion = {
+        type: 'And',
+        criteria: [
+            { type: 'Tag', tag: 'public', matchMode: 'equals' },
+            { type: 'Not', criterion: { type: 'Frontmatter', key: 'publish', value: '', matchMode: 'is false' } },
+            { type: 'Not', criterion: { type: 'Path', pattern: '**/_*', matchMode: 'matches glob' } },
+        ],
+    }
+
+    it('selects publishable notes, their attachments and extra files', async () => {
+        const plugin = await createPlugin({ criterion })
+        const paths = (await plugin.getPublishableFiles()).map(f => f.path)
+        expect(paths.sort()).toEqual(['Public.md', 'image.png', 'refs.bib'])
+    })
+
+    it('follows settings for attachments and extra files', async () => {
+        const plugin = await createPlugin({ criterion, publishAttachments: false, extraFilePatterns: '' })
+        const paths = (await plugin.getPublishableFiles()).map(f => f.path)
+        expect(paths).toEqual(['Public.md'])
+    })
+
+    it('evaluates content criteria after reading the note', async () => {
+        const plugin = await createPlugin({ criterion: { type: 'Content', regex: 'secret' }, extraFilePatterns: '' })
+        const paths = (await plugin.getPublishableFiles()).map(f => f.path)
+        expect(paths).toEqual(['Private.md'])
+    })
+
+    it('finds the notes matching an unsaved criterion', async () => {
+        const plugin = await createPlugin({ criterion })
+        const draft = Criterion.deserialize({ type: 'Folder', folder: 'Drafts', recursive: true }, plugin.getDeserializationContext())
+        expect((await plugin.getMatchingNotes(draft)).map(f => f.path)).toEqual(['Drafts/_Draft.md'])
+        expect((await plugin.getMatchingNotes(plugin.settings.criterion)).map(f => f.path)).toEqual(['Public.md'])
+    })
+
+    it('publishes notes to the repository', async () => {
+        const plugin = await createPlugin({ criterion, commitMessage: 'Publish notes' })
+        await plugin.publishNotes()
+        expect(repo.listFiles('origin/main').sort()).toEqual(['.gitkeep', '.selective-publisher.json', 'Public.md', 'image.png', 'refs.bib'])
+        expect(repo.git('log', '-1', '--format=%s', 'origin/main').trim()).toBe('Publish notes')
+    })
+
+    it('publishes and unpublishes a single note with its attachments', async () => {
+        const plugin = await createPlugin({ criterion })
+        const note = app.vault.getAbstractFileByPath('Public.md') as TFile
+        await plugin.publishSingleNote(note, true)
+        expect(repo.listFiles('origin/main').sort()).toEqual(['.gitkeep', '.selective-publisher.json', 'Public.md', 'image.png'])
+        expect(repo.git('log', '-1', '--format=%s', 'origin/main').trim()).toBe('Publish Public.md')
+
+        await plugin.publishNotes()
+        const unpublished = app.addNote('Public.md', '#public [[Linked]] ![[image.png]]', { frontmatter: { publish: false } })
+        await plugin.publishSingleNote(unpublished, false)
+        expect(repo.listFiles('origin/main').sort()).toEqual(['.gitkeep', '.selective-publisher.json', 'refs.bib'])
+        expect(repo.git('log', '-1', '--format=%s', 'origin/main').trim()).toBe('Unpublish Public.md')
+    })
+
+    it('prepares the criterion before publishing a single note', async () => {
+        const plugin = await createPlugin({ criterion: { type: 'Inherited', key: 'publish', markerFile: '_folder.md' }, extraFilePatterns: '' })
+        app.addNote('Blog/_folder.md', '', { frontmatter: { publish: true } })
+        const post = app.addNote('Blog/Post.md', 'post')
+        app.metadataCache.refresh()
+        await plugin.publishSingleNote(post, true)
+        expect(repo.listFiles('origin/main')).toContain('Blog/Post.md')
+    })
+
+    it('does not publish the marker files of inherited criteria', async () => {
+        const plugin = await createPlugin({ criterion: { type: 'Inherited', key: 'publish', markerFile: '_folder.md' }, extraFilePatterns: '' })
+        const marker = app.addNote('Blog/_folder.md', '', { frontmatter: { publish: true } })
+        app.addNote('Blog/Post.md', 'post')
+        app.metadataCache.refresh()
+        expect((await plugin.getPublishableFiles()).map(f => f.path)).toEqual(['Blog/Post.md'])
+        expect(await plugin.isFilePublishable(marker)).toBe(false)
+    })
+
+    it('publishes only the selected changes', async () => {
+        const plugin = await createPlugin({ criterion })
+        const files = await plugin.getPublishableFiles()
+        const statuses = await plugin.publishingService.getPublishingStatuses(files)
+        await plugin.publishNotes(false, true, files, statuses.filter(s => s.path === 'Public.md'))
+        expect(repo.listFiles('origin/main').sort()).toEqual(['.gitkeep', '.selective-publisher.json', 'Public.md'])
+        expect(repo.exists('image.png')).toBe(false)
+    })
+})
+
+describe('content transformation', () => {
+    it('applies transformers registered by other plugins unless they are disabled', async () => {
+        const criterion = { type: 'Path', pattern: 'Public.md', matchMode: 'contains' }
+        const plugin = await createPlugin({ criterion, publishAttachments: false, extraFilePatterns: '' })
+        plugin.registerContentTransformer({ id: 'other-plugin.upper', name: 'Upper case', transform: content => content.toUpperCase() })
+
+        await plugin.publishNotes()
+        expect(repo.readFile('Public.md')).toBe('#PUBLIC LINKED ')
+
+        plugin.settings.disabledTransformers = ['other-plugin.upper']
+        await plugin.saveSettings()
+        await plugin.publishNotes()
+        expect(repo.readFile('Public.md')).toBe('#public Linked ')
+    })
+})
+
+describe('settings', () => {
+    it('saves the schema version', async () => {
+        const plugin = await createPlugin({})
+        await plugin.saveSettings()
+        expect(await plugin.loadData()).toMatchObject({ version: SETTINGS_VERSION, repo: repo.path })
+    })
+
+    it('backs up invalid settings and reports the invalid fields', async () => {
+        const plugin = await createPlugin({ criterion: { type: 'Tag', tag: 'public', matchMode: 'bogus' }, commitMessage: 'Custom' })
+        expect(plugin.settings.commitMessage).toBe('Custom')
+        // The default criterion would publish most notes, so an invalid criterion matches none
+        expect(plugin.settings.criterion.serialize()).toEqual({ type: 'Or', criteria: [] })
+        expect(await plugin.getMatchingNotes(plugin.settings.criterion)).toEqual([])
+
+        const backups = [...app.vault.adapter.files.keys()].filter(path => path.startsWith('.obsidian/plugins/selective-publisher/data.backup-'))
+        expect(backups).toHaveLength(1)
+        expect(JSON.parse(app.vault.adapter.files.get(backups[0]!)!)).toMatchObject({ criterion: { matchMode: 'bogus' } })
+        expect(notices.at(-1)).toContain('criterion.matchMode')
+    })
+
+    it('matches no notes with settings from a newer version', async () => {
+        const plugin = await createPlugin({ version: SETTINGS_VERSION + 1, criterion: { type: 'Tag', tag: 'public', matchMode: 'equals' } })
+        expect(plugin.settings.criterion.serialize()).toEqual({ type: 'Or', criteria: [] })
+        expect(notices.at(-1)).toContain('matches no notes')
+    })
+})
+
+describe('settings file', () => {
+    it('exports and imports settings as YAML without the repository path', async () => {
+        const plugin = await createPlugin({ commitMessage: 'Publish notes', settingsFile: 'Meta/publishing.yaml' })
+        await plugin.exportSettings()
+        const content = app.vault.adapter.files.get('Meta/publishing.yaml')!
+        expect(content).toContain('commitMessage: Publish notes')
+        expect(content).not.toContain(repo.path)
+
+        await app.vault.adapter.write('Meta/publishing.yaml', content.replace('Publish notes', 'Imported'))
+        expect(plugin.settings.commitMessage).toBe('Publish notes')
+        await plugin.importSettings()
+        expect(plugin.settings.commitMessage).toBe('Imported')
+        expect(plugin.settings.repo).toBe(repo.path)
+        expect(await plugin.loadData()).toMatchObject({ commitMessage: 'Imported' })
+    })
+
+    it('reads settings from the file and reloads them on change', async () => {
+        await app.vault.adapter.write('publishing.json', JSON.stringify({ commitMessage: 'From file', criterion: { type: 'Tag', tag: 'x', matchMode: 'equals' } }))
+        const plugin = await createPlugin({ settingsFile: 'publishing.json', useSettingsFile: true })
+        expect(plugin.settings.commitMessage).toBe('From file')
+        expect(plugin.settings.criterion.getSummary()).toBe('Tag: equals: x')
+
+        await app.vault.adapter.write('publishing.json', JSON.stringify({ commitMessage: 'Changed' }))
+        await vi.waitFor(() => expect(plugin.settings.commitMessage).toBe('Changed'))
+
+        // Changes made in the settings are written to the file
+        plugin.settings.publishAttachments = false
+        await plugin.saveSettings()
+        expect(JSON.parse(app.vault.adapter.files.get('publishing.json')!)).toMatchObject({ commitMessage: 'Changed', publishAttachments: false })
+    })
+
+    it('resets settings that are removed from the file and keeps invalid ones', async () => {
+        await app.vault.adapter.write('publishing.json', JSON.stringify({ commitMessage: 'From file', publishAttachments: false, links: { placeholder: '[{text}]' } }))
+        const plugin = await createPlugin({ settingsFile: 'publishing.json', useSettingsFile: true })
+        expect(plugin.settings.publishAttachments).toBe(false)
+
+        await app.vault.adapter.write('publishing.json', JSON.stringify({ commitMessage: 3 }))
+        await vi.waitFor(() => expect(plugin.settings.publishAttachments).toBe(true))
+        expect(plugin.settings.links.placeholder).toBe('{text} (private)')
+        expect(plugin.settings.commitMessage).toBe('From file')
+        expect(plugin.settings.repo).toBe(repo.path)
+    })
+
+    it('keeps the current criterion if the settings file has none', async () => {
+        const criterion = { type: 'Tag', tag: 'public', matchMode: 'equals' }
+        await app.vault.adapter.write('publishing.json', JSON.stringify({ commitMessage: 'From file' }))
+        const plugin = await createPlugin({ criterion, settingsFile: 'publishing.json', useSettingsFile: true })
+        expect(plugin.settings.commitMessage).toBe('From file')
+        expect(plugin.settings.criterion.serialize()).toEqual(criterion)
+    })
+
+    it('reads a settings file that is created later', async () => {
+        const plugin = await createPlugin({ settingsFile: 'publishing.json', useSettingsFile: true })
+        await app.vault.adapter.write('publishing.json', JSON.stringify({ commitMessage: 'Created' }))
+        await vi.waitFor(() => expect(plugin.settings.commitMessage).toBe('Created'))
+    })
+
+    it('does not overwrite an invalid settings file', async () => {
+        await app.vault.adapter.write('publishing.json', '{ "commitMessage": ')
+        const plugin = await createPlugin({ settingsFile: 'publishing.json', useSettingsFile: true })
+        expect(notices.at(-1)).toContain('Failed to read publishing.json')
+
+        await plugin.saveSettings()
+        expect(app.vault.adapter.files.get('publishing.json')).toBe('{ "commitMessage": ')
+    })
+})
+
+describe('.publishignore', () => {
+    it('excludes files relative to the folder of the ignore file', async () => {
+        app.addNote('Blog/Post.md', '#public')
+        app.addNote('Blog/Drafts/Draft.md', '#public')
+        app.addNote('Blog/Drafts/Keep.md', '#public')
+        await app.vault.adapter.write('.publishignore', '# Attachments\n*.bib\n')
+        await app.vault.adapter.write('Blog/.publishignore', 'Drafts/**')
+        await app.vault.adapter.write('Blog/Drafts/.publishignore', '!Keep.md')
+        const plugin = await createPlugin({ criterion: { type: 'Tag', tag: 'public', matchMode: 'equals' } })
+
+        const { files, ignoredFiles } = await plugin.collectPublishableFiles()
+        expect(files.map(f => f.path).sort()).toEqual(['Blog/Drafts/Keep.md', 'Blog/Post.md', 'Drafts/_Draft.md', 'Private.md', 'Public.md', 'image.png'])
+        expect(ignoredFiles).toEqual([
+            { path: 'Blog/Drafts/Draft.md', ignoreFile: 'Blog/.publishignore' },
+            { path: 'refs.bib', ignoreFile: '.publishignore' },
+        ])
+    })
+
+    it('explains which rule excludes or includes a note', async () => {
+        const post = app.addNote('Blog/Post.md', '#public')
+        const draft = app.addNote('Blog/Draft.md', '#public')
+        const marker = app.addNote('Blog/_folder.md', '#public', { frontmatter: { publish: true } })
+        const extra = app.addNote('Extra/Note.md', 'extra')
+        await app.vault.adapter.write('Blog/.publishignore', 'Draft.md')
+        app.metadataCache.refresh()
+        const plugin = await createPlugin({
+            criterion: { type: 'Or', criteria: [{ type: 'Tag', tag: 'public', matchMode: 'equals' }, { type: 'Inherited', key: 'publish', markerFile: '_folder.md' }] },
+            extraFilePatterns: 'Extra/**',
+        })
+        const explain = async (file: TFile) => {
+            const { trace, published, reasons } = await plugin.getPublishingDecision(file, app.metadataCache.getFileCache(file)!)
+            return { matches: trace.result, published, reasons }
+        }
+
+        expect(await explain(post)).toEqual({ matches: true, published: true, reasons: [] })
+        expect(await explain(draft)).toEqual({ matches: true, published: false, reasons: ['Blog/.publishignore excludes it.'] })
+        expect(await explain(marker)).toEqual({ matches: true, published: false, reasons: ['_folder.md is the marker file of an Inherited criterion and is not published itself.'] })
+        expect(await explain(extra)).toEqual({ matches: false, published: true, reasons: ['The extra file patterns include it.'] })
+        const { files } = await plugin.collectPublishableFiles()
+        expect([post, draft, marker, extra].map(file => files.includes(file))).toEqual([true, false, false, true])
+    })
+})
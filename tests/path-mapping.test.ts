@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { TFile } from './fakes/obsidian'
+import { mapPath, mapPaths, slugifyPathSegment, PathMappingRules, PathMappingError, DEFAULT_PATH_MAPPING_RULES } from '../src/path-mapping'
+
+function map(path: string, rules: Partial<PathMappingRules>, frontmatter?: Record<string, unknown>) {
+    return mapPath(new TFile(path), frontmatter ? { frontmatter } : null, { ...DEFAULT_PATH_MAPPING_RULES, ...rules })
+}
+
+describe('mapPath', () => {
+    it('keeps vault paths without rules', () => {
+        expect(map('Notes/My Note.md', {})).toBe('Notes/My Note.md')
+    })
+
+    it('renames and strips leading folders, preferring the longest match', () => {
+        const folderMappings = 'Notes: content\nNotes/Blog: posts\nPrivate/Public:\ninvalid'
+        expect(map('Notes/Blog/Post.md', { folderMappings })).toBe('posts/Post.md')
+        expect(map('Notes/Other.md', { folderMappings })).toBe('content/Other.md')
+        expect(map('Private/Public/Page.md', { folderMappings })).toBe('Page.md')
+        expect(map('NotesX/Page.md', { folderMappings })).toBe('NotesX/Page.md')
+    })
+
+    it('slugifies folder and file names', () => {
+        expect(map('Notes/Über uns (2024).MD', { slugify: true })).toBe('notes/uber-uns-2024.md')
+        expect(slugifyPathSegment('???')).toBe('???')
+    })
+
+    it('flattens files other than notes into the attachment folder', () => {
+        expect(map('Notes/Images/Photo 1.png', { attachmentFolder: 'assets/', slugify: true })).toBe('assets/photo-1.png')
+        expect(map('Notes/Page.md', { attachmentFolder: 'assets' })).toBe('Notes/Page.md')
+    })
+
+    it('prefers the path property of notes', () => {
+        const rules = { folderMappings: 'Notes: content', slugify: true }
+        expect(map('Notes/Page.md', rules, { 'publish-path': '/about/Index' })).toBe('about/Index.md')
+        expect(map('Notes/Page.md', { ...rules, pathProperty: '' }, { 'publish-path': 'about' })).toBe('content/page.md')
+        expect(() => map('Notes/Page.md', rules, { 'publish-path': '../outside.md' })).toThrow(PathMappingError)
+    })
+
+    it('rejects hidden repository paths', () => {
+        for (const publishPath of ['.git/config', 'site/.github/workflows/x.yml', '.selective-publisher.json']) {
+            expect(() => map('Notes/Page.md', {}, { 'publish-path': publishPath })).toThrow(PathMappingError)
+        }
+        expect(() => map('Notes/Page.md', { folderMappings: 'Notes: .github' })).toThrow('hidden')
+    })
+})
+
+describe('mapPaths', () => {
+    it('reports files that map to the same path', () => {
+        const files = [new TFile('A/image.png'), new TFile('B/Image.png')]
+        expect(() => mapPaths(files, () => null, { ...DEFAULT_PATH_MAPPING_RULES, attachmentFolder: 'assets' }))
+            .toThrow('A/image.png and B/Image.png both map to assets/Image.png')
+    })
+})
@@ -0,0 +1,300 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import * as fs from 'fs'
+import * as path from 'path'
+import { App } from './fakes/obsidian'
+import { createGitRepo, GitRepoFixture } from './fixtures/git-repo'
+import { PublishingService, FileUpdateStatus, MANIFEST_FILE_NAME } from '../src/publishing-service'
+import { DEFAULT_REDACTION_RULES, createRedactionTransformer } from '../src/redaction'
+import { ContentPipeline, ContentTransformerError } from '../src/content-pipeline'
+import { createLinksTransformer, DEFAULT_LINK_RULES } from '../src/links'
+
+let app: App
+let repo: GitRepoFixture
+
+beforeEach(() => {
+    app = new App()
+    repo = createGitRepo()
+})
+
+afterEach(() => {
+    repo.cleanup()
+})
+
+// Marks files in the repository as published by the plugin
+function writeManifest(...files: string[]) {
+    repo.writeFile(MANIFEST_FILE_NAME, JSON.stringify({ files }))
+}
+
+describe('PublishingService', () => {
+    it('reports new, modified, unmodified and deleted files', async () => {
+        repo.writeFile('Old.md', 'old')
+        repo.writeFile('Same.md', 'same')
+        repo.writeFile('Changed.md', 'before')
+        writeManifest('Old.md', 'Same.md', 'Changed.md')
+        const files = [
+            app.addNote('New.md', 'new'),
+            // Modification times do not matter, only the content
+            app.addNote('Same.md', 'same', {}, { mtime: Date.now() + 60_000 }),
+            app.addNote('Changed.md', 'after', {}, { mtime: 0 }),
+        ]
+
+        const service = new PublishingService(app, repo.path, DEFAULT_REDACTION_RULES)
+        const statuses = await service.getPublishingStatuses(files)
+        expect(statuses.map(s => [s.path, s.status])).toEqual([
+            ['New.md', FileUpdateStatus.New],
+            ['Same.md', FileUpdateStatus.Unmodified],
+            ['Changed.md', FileUpdateStatus.Modified],
+            ['Old.md', FileUpdateStatus.Deleted],
+        ])
+    })
+
+    it('copies notes and attachments and removes unpublished files', async () => {
+        repo.writeFile('Unpublished.md', 'old')
+        writeManifest('Unpublished.md')
+        const image = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff])
+        const files = [
+            app.addNote('Notes/Note.md', 'Public\n%% private %%\n![[image.png]]'),
+            app.addBinaryFile('Attachments/image.png', image),
+        ]
+
+        const service = new PublishingService(app, repo.path, { ...DEFAULT_REDACTION_RULES, removeComments: true })
+        await service.updateFilesInRepo(files)
+
+        expect(repo.readFile('Notes/Note.md')).toBe('Public\n\n![[image.png]]')
+        expect(repo.readBinaryFile('Attachments/image.png')).toEqual(image)
+        expect(repo.exists('Unpublished.md')).toBe(false)
+        // Hidden files such as .git and .gitkeep are never touched
+        expect(repo.exists('.gitkeep')).toBe(true)
+    })
+
+    it('deletes only files that it published and that are not protected', async () => {
+        repo.writeFile('Old.md', 'old')
+        repo.writeFile('Kept/Old.md', 'old')
+        repo.writeFile('index.md', 'hand-written')
+        writeManifest('Old.md', 'Kept/Old.md', 'Gone.md')
+        const files = [app.addNote('New.md', 'new')]
+
+        const service = new PublishingService(app, repo.path, DEFAULT_REDACTION_RULES, undefined, undefined, 'Kept/**')
+        const statuses = await service.getPublishingStatuses(files)
+        expect(statuses.map(s => [s.path, s.status]).sort()).toEqual([
+            ['Kept/Old.md', FileUpdateStatus.Unmanaged],
+            ['New.md', FileUpdateStatus.New],
+            ['Old.md', FileUpdateStatus.Deleted],
+            ['index.md', FileUpdateStatus.Unmanaged],
+        ])
+
+        await service.updateFilesInRepo(files)
+        expect(repo.exists('Old.md')).toBe(false)
+        expect(repo.exists('Kept/Old.md')).toBe(true)
+        expect(repo.exists('index.md')).toBe(true)
+        expect(JSON.parse(repo.readFile(MANIFEST_FILE_NAME))).toEqual({ files: ['New.md'] })
+    })
+
+    it('writes and deletes only selected files', async () => {
+        repo.writeFile('Old.md', 'old')
+        repo.writeFile('Gone.md', 'gone')
+        writeManifest('Old.md', 'Gone.md')
+        const files = [app.addNote('New.md', 'new'), app.addNote('Draft.md', 'draft')]
+
+        const service = new PublishingService(app, repo.path, DEFAULT_REDACTION_RULES)
+        const statuses = await service.getPublishingStatuses(files)
+        await service.updateFilesInRepo(files, statuses.filter(s => s.path === 'New.md' || s.path === 'Old.md'))
+        expect(repo.exists('New.md')).toBe(true)
+        expect(repo.exists('Draft.md')).toBe(false)
+        expect(repo.exists('Old.md')).toBe(false)
+        expect(repo.exists('Gone.md')).toBe(true)
+        // Gone.md is still deleted by the next full publish
+        expect(JSON.parse(repo.readFile(MANIFEST_FILE_NAME))).toEqual({ files: ['Gone.md', 'New.md'] })
+    })
+
+    it('manages no files without a manifest and rejects invalid manifests', async () => {
+        repo.writeFile('Old.md', 'old')
+        const service = new PublishingService(app, repo.path, DEFAULT_REDACTION_RULES)
+        await service.updateFilesInRepo([])
+        expect(repo.exists('Old.md')).toBe(true)
+
+        repo.writeFile(MANIFEST_FILE_NAME, '{"files": "Old.md"}')
+        await expect(service.getPublishingStatuses([])).rejects.toThrow('manifest')
+    })
+
+    it('adopts the publishable files of a repository without a manifest', async () => {
+        repo.writeFile('Same.md', 'same')
+        repo.writeFile('Changed.md', 'before')
+        repo.writeFile('Old.md', 'old')
+        const files = [app.addNote('Same.md', 'same'), app.addNote('Changed.md', 'after'), app.addNote('New.md', 'new')]
+
+        const service = new PublishingService(app, repo.path, DEFAULT_REDACTION_RULES)
+        expect(await service.hasManifest()).toBe(false)
+        const statuses = await service.getPublishingStatuses(files)
+        await service.updateFilesInRepo(files, statuses.filter(s => s.path === 'Changed.md'))
+        expect(await service.hasManifest()).toBe(true)
+        expect(JSON.parse(repo.readFile(MANIFEST_FILE_NAME))).toEqual({ files: ['Changed.md', 'Same.md'] })
+    })
+
+    it('returns both versions of changed files', async () => {
+        repo.writeFile('Note.md', 'before')
+        repo.writeFile('Old.md', 'old')
+        const files = [app.addNote('Note.md', 'after\n%% private %%')]
+        const service = new PublishingService(app, repo.path, { ...DEFAULT_REDACTION_RULES, removeComments: true })
+
+        const note = await service.compareFile({ path: 'Note.md', status: FileUpdateStatus.Modified }, files)
+        expect([note.repoContent?.toString(), note.content?.toString()]).toEqual(['before', 'after\n'])
+        const deleted = await service.compareFile({ path: 'Old.md', status: FileUpdateStatus.Deleted }, files)
+        expect([deleted.repoContent?.toString(), deleted.content]).toEqual(['old', null])
+    })
+
+    it('compares the transformed content with the repository', async () => {
+        repo.writeFile('Note.md', 'Public\n')
+        const files = [app.addNote('Note.md', 'Public\n%% private %%', {}, { mtime: Date.now() + 60_000 })]
+
+        const service = new PublishingService(app, repo.path, { ...DEFAULT_REDACTION_RULES, removeComments: true })
+        expect((await service.getPublishingStatuses(files))[0]!.status).toBe(FileUpdateStatus.Unmodified)
+    })
+
+    it('does not rewrite files with identical content', async () => {
+        repo.writeFile('Same.md', 'same')
+        const image = new Uint8Array([1, 2, 3])
+        fs.writeFileSync(path.join(repo.path, 'image.png'), image)
+        const past = new Date(2020, 0, 1)
+        fs.utimesSync(path.join(repo.path, 'Same.md'), past, past)
+        fs.utimesSync(path.join(repo.path, 'image.png'), past, past)
+        const files = [app.addNote('Same.md', 'same'), app.addBinaryFile('image.png', image)]
+
+        await new PublishingService(app, repo.path, DEFAULT_REDACTION_RULES).updateFilesInRepo(files)
+        expect(fs.statSync(path.join(repo.path, 'Same.md')).mtime).toEqual(past)
+        expect(fs.statSync(path.join(repo.path, 'image.png')).mtime).toEqual(past)
+    })
+
+    it('reports the number of redacted sections of notes', async () => {
+        const file = app.addNote('Note.md', '%% a %% text %% b %%')
+        const service = new PublishingService(app, repo.path, { ...DEFAULT_REDACTION_RULES, removeComments: true })
+        const [status] = await service.getPublishingStatuses([file])
+        expect(status?.redactionCount).toBe(2)
+    })
+})
+
+describe('PublishingService links', () => {
+    it('lists and removes links to unpublished notes', async () => {
+        const note = app.addNote('Note.md', '[[Other]] and [[Private]]')
+        const other = app.addNote('Other.md', 'other')
+        app.addNote('Private.md', 'private')
+        app.metadataCache.refresh()
+        const pipeline = new ContentPipeline()
+        pipeline.register(createLinksTransformer(() => DEFAULT_LINK_RULES))
+
+        const service = new PublishingService(app, repo.path, DEFAULT_REDACTION_RULES, pipeline)
+        const statuses = await service.getPublishingStatuses([note, other])
+        expect(statuses.find(s => s.path === 'Note.md')?.unpublishedLinks).toEqual(['[[Private]]'])
+
+        await service.updateFilesInRepo([note, other])
+        expect(repo.readFile('Note.md')).toBe('[[Other]] and Private')
+    })
+
+    it('does not list links in redacted sections', async () => {
+        const note = app.addNote('Note.md', '[[Private]] %% [[Secret]] %%')
+        app.addNote('Private.md', 'private')
+        app.addNote('Secret.md', 'secret')
+        app.metadataCache.refresh()
+        const rules = { ...DEFAULT_REDACTION_RULES, removeComments: true }
+        const pipeline = new ContentPipeline()
+        pipeline.register(createRedactionTransformer(() => rules))
+        pipeline.register(createLinksTransformer(() => DEFAULT_LINK_RULES))
+
+        const service = new PublishingService(app, repo.path, rules, pipeline)
+        const [status] = await service.getPublishingStatuses([note])
+        expect(status?.unpublishedLinks).toEqual(['[[Private]]'])
+    })
+
+    it('reads each note once for the preview and its changes', async () => {
+        repo.writeFile('Note.md', 'before')
+        const note = app.addNote('Note.md', '[[Private]] %% secret %%')
+        app.addNote('Private.md', 'private')
+        app.metadataCache.refresh()
+        const rules = { ...DEFAULT_REDACTION_RULES, removeComments: true }
+        const pipeline = new ContentPipeline()
+        pipeline.register(createRedactionTransformer(() => rules))
+        pipeline.register(createLinksTransformer(() => DEFAULT_LINK_RULES))
+        const read = vi.spyOn(app.vault, 'read')
+
+        const service = new PublishingService(app, repo.path, rules, pipeline)
+        const files = [note]
+        const [status] = await service.getPublishingStatuses(files)
+        const comparison = await service.compareFile(status!, files)
+        expect([status?.status, status?.redactionCount, status?.unpublishedLinks]).toEqual([FileUpdateStatus.Modified, 1, ['[[Private]]']])
+        expect(comparison.content?.toString()).toBe('Private ')
+        expect(read).toHaveBeenCalledTimes(1)
+    })
+})
+
+describe('PublishingService path mapping', () => {
+    it('writes, compares and deletes files at their mapped paths', async () => {
+        repo.writeFile('posts/old.md', 'old')
+        repo.writeFile('posts/unchanged.md', 'same')
+        writeManifest('posts/old.md', 'posts/unchanged.md')
+        const note = app.addNote('Notes/Blog/New Post.md', '[[Unchanged]] ![[Photo.png]]')
+        const files = [
+            note,
+            app.addNote('Notes/Blog/Unchanged.md', 'same', { frontmatter: { 'publish-path': 'posts/unchanged' } }),
+            app.addBinaryFile('Images/Photo.png', new Uint8Array([1])),
+        ]
+        app.metadataCache.refresh()
+        const pipeline = new ContentPipeline()
+        pipeline.register(createLinksTransformer(() => ({ ...DEFAULT_LINK_RULES, convertToMarkdownLinks: true })))
+        const rules = { folderMappings: 'Notes/Blog: posts', slugify: true, attachmentFolder: 'assets', pathProperty: 'publish-path' }
+
+        const service = new PublishingService(app, repo.path, DEFAULT_REDACTION_RULES, pipeline, rules)
+        const statuses = await service.getPublishingStatuses(files)
+        expect(statuses.map(s => [s.path, s.repoPath, s.status])).toEqual([
+            ['Notes/Blog/New Post.md', 'posts/new-post.md', FileUpdateStatus.New],
+            ['Notes/Blog/Unchanged.md', 'posts/unchanged.md', FileUpdateStatus.Unmodified],
+            ['Images/Photo.png', 'assets/photo.png', FileUpdateStatus.New],
+            ['posts/old.md', undefined, FileUpdateStatus.Deleted],
+        ])
+
+        await service.updateFilesInRepo(files)
+        expect(repo.readFile('posts/new-post.md')).toBe('[Unchanged](unchanged.md) ![Photo.png](../assets/photo.png)')
+        expect(repo.exists('assets/photo.png')).toBe(true)
+        expect(repo.exists('posts/old.md')).toBe(false)
+    })
+})
+
+describe('ContentPipeline', () => {
+    it('applies the enabled transformers in order with the publish set', async () => {
+        const rules = { ...DEFAULT_REDACTION_RULES, removeComments: true }
+        const pipeline = new ContentPipeline(id => id !== 'disabled')
+        pipeline.register(createRedactionTransformer(() => rules))
+        pipeline.register({ id: 'disabled', name: 'Disabled', transform: () => 'disabled' })
+        pipeline.register({
+            id: 'links',
+            name: 'Links',
+            transform: (content, context) => `${content}\nLinks: ${[...context.publishedPaths].join(', ')} (${context.metadata?.frontmatter?.title as string})`,
+        })
+        const files = [
+            app.addNote('Note.md', 'Text %% private %%', { frontmatter: { title: 'Title' } }),
+            app.addNote('Other.md', 'other'),
+        ]
+
+        const service = new PublishingService(app, repo.path, rules, pipeline)
+        await service.updateFilesInRepo(files)
+
+        expect(repo.readFile('Note.md')).toBe('Text \nLinks: Note.md, Other.md (Title)')
+        expect((await service.getPublishingStatuses(files))[0]?.redactionCount).toBe(1)
+    })
+
+    it('reports which transformer failed', async () => {
+        const pipeline = new ContentPipeline()
+        pipeline.register({ id: 'broken', name: 'Broken', transform: () => { throw new Error('boom') } })
+        const file = app.addNote('Note.md', 'text')
+
+        await expect(pipeline.transform('text', { app, file, metadata: null, publishedFiles: [file], publishedPaths: new Set([file.path]), repoPaths: new Map([[file.path, file.path]]) }))
+            .rejects.toThrow(ContentTransformerError)
+    })
+
+    it('rejects duplicate ids and removes unregistered transformers', () => {
+        const pipeline = new ContentPipeline()
+        const unregister = pipeline.register({ id: 'step', name: 'Step', transform: content => content })
+        expect(() => pipeline.register({ id: 'step', name: 'Step', transform: content => content })).toThrow()
+        unregister()
+        expect(pipeline.getTransformers()).toEqual([])
+    })
+})
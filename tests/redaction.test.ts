@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { redactContent, hasRedactionRules, DEFAULT_REDACTION_RULES, RedactionRules } from '../src/redaction'
+
+const rules: RedactionRules = {
+    removeComments: true,
+    startMarker: '<!-- private -->',
+    endMarker: '<!-- /private -->',
+    privateHeadingTag: 'private',
+    calloutTypes: 'secret, todo',
+}
+
+describe('redactContent', () => {
+    it('does nothing without rules', () => {
+        expect(hasRedactionRules(DEFAULT_REDACTION_RULES)).toBe(false)
+        expect(redactContent('a %% b %%', DEFAULT_REDACTION_RULES)).toEqual({ content: 'a %% b %%', redactionCount: 0 })
+    })
+
+    it('removes comments, marked blocks, private headings and callouts', () => {
+        const content = [
+            'Intro %%note%% text',
+            '<!-- private -->',
+            'hidden',
+            '<!-- /private -->',
+            '## Plans #private',
+            'hidden',
+            '### Details',
+            'hidden',
+            '## Public',
+            '> [!secret] Title',
+            '> hidden',
+            'visible',
+        ].join('\n')
+        expect(redactContent(content, rules)).toEqual({
+            content: 'Intro  text\n## Public\nvisible',
+            redactionCount: 4,
+        })
+    })
+
+    it('keeps fenced code blocks intact', () => {
+        const content = '```\n%% kept %%\n## Heading #private\n```\n~~~\n> [!secret]\n~~~'
+        expect(redactContent(content, rules)).toEqual({ content, redactionCount: 0 })
+    })
+
+    it('removes unterminated comments to the end of the note', () => {
+        expect(redactContent('visible\n%% hidden\nhidden', rules).content).toBe('visible\n')
+    })
+})
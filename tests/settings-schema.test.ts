@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import { loadSettingsData, SETTINGS_VERSION } from '../src/settings-schema'
+
+describe('loadSettingsData', () => {
+    it('accepts missing data', () => {
+        expect(loadSettingsData(null)).toEqual({ data: { version: SETTINGS_VERSION }, errors: [] })
+    })
+
+    it('migrates criteria from unversioned data', () => {
+        const { data, errors } = loadSettingsData({
+            repo: '/repo',
+            criterion: {
+                type: 'and',
+                criteria: [
+                    { type: 'TagCriterion', tag: 'public' },
+                    { type: 'Title', pattern: 'Untitled*', matchMode: 'glob' },
+                    { type: 'Frontmatter', key: 'priority', value: 2, matchMode: 'greaterThan' },
+                    { type: 'Not', criterion: { type: 'Tag', tag: 'draft', matchMode: 'STARTS_WITH' } },
+                ],
+            },
+            criterionDefinitions: { Linked: { type: 'LinkGraph', criterion: { type: 'Path', pattern: 'x', matchMode: 'regex' } } },
+        })
+        expect(errors).toEqual([])
+        expect(data).toEqual({
+            version: SETTINGS_VERSION,
+            repo: '/repo',
+            criterion: {
+                type: 'And',
+                criteria: [
+                    { type: 'Tag', tag: 'public', matchMode: 'starts with' },
+                    { type: 'Title', pattern: 'Untitled*', matchMode: 'matches glob' },
+                    { type: 'Frontmatter', key: 'priority', value: '2', matchMode: 'greater than' },
+                    { type: 'Not', criterion: { type: 'Tag', tag: 'draft', matchMode: 'starts with' } },
+                ],
+            },
+            criterionDefinitions: {
+                Linked: { type: 'LinkGraph', criterion: { type: 'Path', pattern: 'x', matchMode: 'matches regex' }, maxDepth: 1, direction: 'outgoing links' },
+            },
+        })
+    })
+
+    it('reports the path of invalid fields and keeps the valid ones', () => {
+        const { data, errors } = loadSettingsData({
+            version: SETTINGS_VERSION,
+            repo: '/repo',
+            publishAttachments: 'yes',
+            criterion: { type: 'Or', criteria: [{ type: 'Tag', tag: 'a', matchMode: 'equals' }, { type: 'Tag', tag: 'b', matchMode: 'sounds like' }] },
+            criterionDefinitions: { Good: { type: 'Content', regex: 'x' }, Bad: { type: 'Unknown' } },
+            redaction: { removeComments: true, startMarker: 3 },
+        })
+        expect(errors.map(e => e.path)).toEqual(['publishAttachments', 'criterion.criteria[1].matchMode', 'redaction.startMarker', 'criterionDefinitions.Bad.type'])
+        expect(errors[1]!.message).toContain('expected one of "equals", "starts with", "includes" but got "sounds like"')
+        expect(data).toEqual({
+            version: SETTINGS_VERSION,
+            repo: '/repo',
+            redaction: { removeComments: true },
+            criterionDefinitions: { Good: { type: 'Content', regex: 'x' } },
+        })
+    })
+
+    it('reports and leaves out definitions that reference each other in a cycle', () => {
+        const { data, errors } = loadSettingsData({
+            version: SETTINGS_VERSION,
+            criterionDefinitions: {
+                A: { type: 'Reference', name: 'B' },
+                B: { type: 'Not', criterion: { type: 'Reference', name: 'A' } },
+                Self: { type: 'Or', criteria: [{ type: 'Reference', name: 'Self' }] },
+                UsesA: { type: 'Reference', name: 'A' },
+                Good: { type: 'Content', regex: 'x' },
+            },
+        })
+        expect(errors.map(e => e.message)).toEqual([
+            'criterionDefinitions.A: cyclic reference A -> B -> A',
+            'criterionDefinitions.B: cyclic reference B -> A -> B',
+            'criterionDefinitions.Self: cyclic reference Self -> Self',
+        ])
+        expect(data.criterionDefinitions).toEqual({
+            UsesA: { type: 'Reference', name: 'A' },
+            Good: { type: 'Content', regex: 'x' },
+        })
+    })
+
+    it('does not interpret data from a newer version', () => {
+        const { data, errors } = loadSettingsData({ version: SETTINGS_VERSION + 1, repo: '/repo' })
+        expect(data).toEqual({ version: SETTINGS_VERSION })
+        expect(errors.map(e => e.path)).toEqual(['version'])
+    })
+})
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+import { App } from './fakes/obsidian'
+import { getAllTagsFromFile, TagCriterion, TagMatchMode } from '../src/criterion'
+
+// Obsidian parses the tags of a note (e.g. which inline tags in code or URLs count), so these tests only cover
+// the normalization and matching on top of getAllTags, whose fake returns the given inline tags unchanged
+describe('getAllTagsFromFile', () => {
+    const app = new App()
+    const position = { start: { line: 0, col: 0, offset: 0 }, end: { line: 0, col: 0, offset: 0 } }
+
+    function addNoteWithTags(...tags: string[]) {
+        const file = app.addNote('note.md', '', { tags: tags.map(tag => ({ tag, position })) })
+        return { file, metadata: app.metadataCache.getFileCache(file)! }
+    }
+
+    it('normalizes case, the leading # and whitespace and removes duplicates', () => {
+        const { metadata } = addNoteWithTags('#Blog', '#blog', ' #Blog/Travel ', '#', '#日本語', '#Čitanje')
+        expect(getAllTagsFromFile(metadata)).toEqual(['blog', 'blog/travel', '日本語', 'čitanje'])
+    })
+
+    it('matches tags case-insensitively and by nesting level', () => {
+        const { file, metadata } = addNoteWithTags('#Project/Alpha/Docs')
+        const matches = (tag: string, mode: TagMatchMode) => new TagCriterion(tag, mode).evaluate(file, null, metadata)
+        expect(matches('PROJECT/alpha/docs', TagMatchMode.Equals)).toBe(true)
+        expect(matches('project', TagMatchMode.Equals)).toBe(false)
+        expect(matches('project/alpha', TagMatchMode.StartsWith)).toBe(true)
+        expect(matches('project/al', TagMatchMode.StartsWith)).toBe(false)
+        expect(matches('alpha', TagMatchMode.Includes)).toBe(true)
+        expect(matches('alp', TagMatchMode.Includes)).toBe(false)
+    })
+
+    it('handles notes without tags', () => {
+        const { metadata } = addNoteWithTags()
+        expect(getAllTagsFromFile(metadata)).toEqual([])
+    })
+})
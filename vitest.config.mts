@@ -0,0 +1,15 @@
+import { defineConfig } from 'vitest/config'
+import { fileURLToPath } from 'url'
+
+// Obsidian and Electron are only available inside the app, so tests run against in-memory fakes
+export default defineConfig({
+	resolve: {
+		alias: {
+			'obsidian': fileURLToPath(new URL('./tests/fakes/obsidian.ts', import.meta.url)),
+			'@electron/remote': fileURLToPath(new URL('./tests/fakes/electron-remote.ts', import.meta.url)),
+		},
+	},
+	test: {
+		include: ['tests/**/*.test.ts'],
+	},
+})